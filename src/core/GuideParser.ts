@@ -1,144 +1,363 @@
 import { parse } from 'svg-parser';
-import { createCanvas, CanvasRenderingContext2D } from 'canvas';
-import { Path2D, applyPath2DToCanvasRenderingContext } from 'path2d';
 import fs from 'fs';
-
-// Setup Polyfill
-applyPath2DToCanvasRenderingContext(CanvasRenderingContext2D as any);
+import { DEFAULT_CURVE_TOLERANCE, FlatSubpath, SvgPathParser } from './SvgPathParser';
+import { IDENTITY, MM_PER_CSS_PX, Matrix, SvgTransform } from './SvgTransform';
+import { MaskRasterizer } from './MaskRasterizer';
 
 export type Point = { x: number, y: number };
 
+/**
+ * Seme esplicito del Watershed (layer `seeds`): centro di un cerchio, con etichetta opzionale
+ * (`data-label`, `inkscape:label` o `<title>`) usata come nome del tile.
+ */
+export type GuideSeed = { x: number, y: number, label?: string };
+
+/**
+ * Corridoio morbido: distanza (px) dalla linea della guida, calcolata fino a SOFT_CORRIDOR_RANGE * falloff.
+ * Il costo cresce con distance / falloff invece di diventare infinito fuori dal tratto.
+ */
+export type SoftCorridor = { distance: Float32Array, falloff: number };
+
+// Oltre questo multiplo del falloff il costo del corridoio morbido resta costante
+export const SOFT_CORRIDOR_RANGE = 3;
+
+/**
+ * Le maschere sono Uint8Array piatte grandi quanto la HeightMap (y * width + x, 1 = dentro).
+ */
 export type GuideSet = {
-    verticals: boolean[][][];
-    horizontals: boolean[][][];
+    verticals: Uint8Array[];
+    horizontals: Uint8Array[];
+    // Corridoio morbido di ogni guida (stesso indice di verticals/horizontals), null se rigido
+    verticalSoft: (SoftCorridor | null)[];
+    horizontalSoft: (SoftCorridor | null)[];
     verticalPaths: Point[][];
     horizontalPaths: Point[][];
+    // Tagli liberi del layer `cuts-free` (diagonali, curvi, parziali): usati così come sono, senza ricerca del seam
+    freePaths: Point[][];
+    seeds: GuideSeed[];
+    // Forme piene del layer `keep-together`: ogni maschera deve finire in un solo tile
+    keepTogether: Uint8Array[];
+    // Forme piene del layer `no-cut`: nessun taglio può attraversarle
+    noCut: Uint8Array[];
+};
+
+export type GuideParseOptions = {
+    // Scarto massimo (px) tra curve/archi e la spezzata che li approssima
+    curveTolerance?: number;
+    // mm per pixel della HeightMap: necessario per guide disegnate in unità fisiche (mm, cm, in, ...)
+    resolution?: number;
+    // Corridoi morbidi per tutte le guide (ogni path può scegliere con data-corridor="soft|hard")
+    softCorridors?: boolean;
 };
 
+// Scarto oltre il quale l'area della guida è considerata diversa da quella del modello
+const EXTENT_TOLERANCE = 0.02;
+
 export class GuideParser {
 
-    static parse(svgPath: string, width: number, height: number): GuideSet {
+    static parse(svgPath: string, width: number, height: number, options: GuideParseOptions = {}): GuideSet {
         console.log(`📖 Parsing guida SVG: ${svgPath}`);
         const svgContent = fs.readFileSync(svgPath, 'utf-8');
         const root = parse(svgContent);
 
-        const guides: GuideSet = { verticals: [], horizontals: [], verticalPaths: [], horizontalPaths: [] };
+        const guides: GuideSet = { verticals: [], horizontals: [], verticalSoft: [], horizontalSoft: [], verticalPaths: [], horizontalPaths: [], freePaths: [], seeds: [], keepTogether: [], noCut: [] };
+
+        // Unità utente del documento -> pixel della HeightMap (viewBox, width/height, unità)
+        const svg = (root.children as any[]).find(c => c.tagName === 'svg') ?? root;
+        const docMatrix = this.documentMatrix(svg, width, height, options.resolution);
 
         // FIX: Ora usiamo una funzione di ricerca più flessibile (ID o Label)
-        const verticalGroup = this.findLayer(root, 'cuts-vertical');
-        const horizontalGroup = this.findLayer(root, 'cuts-horizontal');
-
-        // Helper to convert SVG path strings to Point[]
-        const parsePath = (d: string): Point[] => {
-            // Very basic SVG path parser (supports M and L)
-            const pts: Point[] = [];
-            const commands = d.match(/[ML][^ML]*/g) || [];
-
-            for (const cmd of commands) {
-                const nums = cmd.trim().substring(1).trim().split(/[\s,]+/).map(Number);
-                if (nums.length >= 2) pts.push({ x: nums[0], y: nums[1] });
-            }
-            return pts;
-        };
+        const verticalGroup = this.findLayer(root, 'cuts-vertical', docMatrix);
+        const horizontalGroup = this.findLayer(root, 'cuts-horizontal', docMatrix);
+        const freeGroup = this.findLayer(root, 'cuts-free', docMatrix);
+        const seedsGroup = this.findLayer(root, 'seeds', docMatrix);
+        const keepTogetherGroup = this.findLayer(root, 'keep-together', docMatrix);
+        const noCutGroup = this.findLayer(root, 'no-cut', docMatrix);
+
+        const tolerance = options.curveTolerance ?? DEFAULT_CURVE_TOLERANCE;
 
         if (verticalGroup) {
-            const paths = this.extractPaths(verticalGroup);
+            const paths = this.extractPaths(verticalGroup.node, verticalGroup.ctm, tolerance, options.softCorridors ?? false);
             console.log(`   -> Trovati ${paths.length} percorsi guida verticali.`);
-            guides.verticals = paths.map(p => this.rasterizePath(p.d, p.strokeWidth, width, height));
-            guides.verticalPaths = paths.map(p => parsePath(p.d));
+            guides.verticals = paths.map(p => MaskRasterizer.stroke(p.subpaths.map(sp => sp.points), p.strokeWidth, width, height));
+            guides.verticalSoft = paths.map(p => p.falloff !== null ? this.softCorridor(p.subpaths, p.falloff, width, height) : null);
+            guides.verticalPaths = paths.map(p => p.subpaths.flatMap(sp => sp.points));
         } else {
             console.log("   -> Nessun layer 'cuts-vertical' trovato.");
         }
 
         if (horizontalGroup) {
-            const paths = this.extractPaths(horizontalGroup);
+            const paths = this.extractPaths(horizontalGroup.node, horizontalGroup.ctm, tolerance, options.softCorridors ?? false);
             console.log(`   -> Trovati ${paths.length} percorsi guida orizzontali.`);
-            guides.horizontals = paths.map(p => this.rasterizePath(p.d, p.strokeWidth, width, height));
-            guides.horizontalPaths = paths.map(p => parsePath(p.d));
+            guides.horizontals = paths.map(p => MaskRasterizer.stroke(p.subpaths.map(sp => sp.points), p.strokeWidth, width, height));
+            guides.horizontalSoft = paths.map(p => p.falloff !== null ? this.softCorridor(p.subpaths, p.falloff, width, height) : null);
+            guides.horizontalPaths = paths.map(p => p.subpaths.flatMap(sp => sp.points));
         } else {
             console.log("   -> Nessun layer 'cuts-horizontal' trovato.");
         }
 
+        if (freeGroup) {
+            // Ogni sottopercorso è un taglio a sé
+            guides.freePaths = this.extractPaths(freeGroup.node, freeGroup.ctm, tolerance, false)
+                .flatMap(p => p.subpaths.map(sp => sp.points))
+                .filter(points => points.length >= 2);
+            console.log(`   -> Trovati ${guides.freePaths.length} tagli liberi.`);
+        }
+
+        if (seedsGroup) {
+            guides.seeds = this.extractSeeds(seedsGroup.node, seedsGroup.ctm);
+            console.log(`   -> Trovati ${guides.seeds.length} semi espliciti.`);
+        }
+
+        if (keepTogetherGroup) {
+            const shapes = this.extractShapes(keepTogetherGroup.node, keepTogetherGroup.ctm, tolerance);
+            console.log(`   -> Trovate ${shapes.length} aree da non dividere (keep-together).`);
+            guides.keepTogether = shapes.map(sp => MaskRasterizer.fill(sp.map(p => p.points), width, height));
+        }
+
+        if (noCutGroup) {
+            const shapes = this.extractShapes(noCutGroup.node, noCutGroup.ctm, tolerance);
+            console.log(`   -> Trovate ${shapes.length} zone vietate ai tagli (no-cut).`);
+            guides.noCut = shapes.map(sp => MaskRasterizer.fill(sp.map(p => p.points), width, height));
+        }
+
         return guides;
     }
 
-    public static rasterizePath(pathData: string, strokeWidth: number, w: number, h: number): boolean[][] {
-        const canvas = createCanvas(w, h);
-        const ctx = canvas.getContext('2d');
+    /**
+     * Matrice dalle unità utente del documento ai pixel della HeightMap.
+     * - width/height in unità fisiche (mm, cm, in, pt, pc): il documento è in scala reale e viene
+     *   portato in pixel con la risoluzione della HeightMap (le unità utente seguono il viewBox).
+     * - numeri puri o px: come nelle prime versioni, un'unità utente (o un px della pagina, se c'è
+     *   un viewBox) è un pixel della HeightMap.
+     * Avvisa se l'area della pagina non coincide con quella del modello.
+     */
+    private static documentMatrix(svg: any, width: number, height: number, resolution?: number): Matrix {
+        const props = svg.properties || {};
+        const vb = props.viewBox ? String(props.viewBox).trim().split(/[\s,]+/).map(Number) : null;
+        const viewBox = vb && vb.length === 4 && vb[2] > 0 && vb[3] > 0 ? vb : null;
 
-        // Sfondo nero
-        ctx.fillStyle = 'black';
-        ctx.fillRect(0, 0, w, h);
+        const widthMm = SvgTransform.lengthToMm(props.width);
+        const heightMm = SvgTransform.lengthToMm(props.height);
+        const physical = widthMm !== null && heightMm !== null;
+        if (physical && !resolution) {
+            console.warn("⚠️  Guida in unità fisiche ma risoluzione HeightMap sconosciuta: unità trattate come pixel.");
+        }
 
-        // Disegna il path in bianco (ROI)
-        ctx.strokeStyle = 'white';
-        ctx.lineWidth = strokeWidth; // Usa larghezza dinamica dallo stroke SVG
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
+        // Area della pagina (viewport) in pixel HeightMap
+        let vpW: number | null = null, vpH: number | null = null;
+        if (physical && resolution) {
+            vpW = widthMm! / resolution;
+            vpH = heightMm! / resolution;
+        } else {
+            const w = parseFloat(props.width), h = parseFloat(props.height);
+            const relative = (v: any) => String(v ?? '').trim().endsWith('%');
+            if (w > 0 && h > 0 && !relative(props.width) && !relative(props.height)) {
+                vpW = w; vpH = h;
+            } else if (viewBox) {
+                vpW = viewBox[2]; vpH = viewBox[3];
+            }
+        }
 
-        const p = new Path2D(pathData);
-        (ctx as any).stroke(p);
+        let matrix: Matrix = IDENTITY;
+        if (viewBox && vpW !== null && vpH !== null) {
+            matrix = this.viewBoxMatrix(viewBox, vpW, vpH, props.preserveAspectRatio);
+        } else if (physical && resolution) {
+            // Senza viewBox un'unità utente è un px CSS
+            const s = MM_PER_CSS_PX / resolution;
+            matrix = [s, 0, 0, s, 0, 0];
+        }
 
-        const imgData = ctx.getImageData(0, 0, w, h);
-        const data = imgData.data;
+        if (vpW !== null && vpH !== null &&
+            (Math.abs(vpW - width) > EXTENT_TOLERANCE * width || Math.abs(vpH - height) > EXTENT_TOLERANCE * height)) {
+            const fmt = (w: number, h: number) => resolution
+                ? `${(w * resolution).toFixed(1)}x${(h * resolution).toFixed(1)}mm`
+                : `${Math.round(w)}x${Math.round(h)}px`;
+            console.warn(`⚠️  L'area della guida (${fmt(vpW, vpH)}) non corrisponde a quella del modello (${fmt(width, height)}): controlla unità, width/height e viewBox.`);
+        }
+        return matrix;
+    }
 
-        const grid: boolean[][] = [];
-        for (let y = 0; y < h; y++) {
-            const row: boolean[] = [];
-            for (let x = 0; x < w; x++) {
-                const index = (y * w + x) * 4;
-                row.push(data[index] > 50);
-            }
-            grid.push(row);
+    // viewBox -> viewport secondo preserveAspectRatio (default xMidYMid meet)
+    private static viewBoxMatrix(viewBox: number[], vpW: number, vpH: number, preserveAspectRatio?: string): Matrix {
+        const [minX, minY, vbW, vbH] = viewBox;
+        let sx = vpW / vbW, sy = vpH / vbH;
+        let tx = 0, ty = 0;
+        const [align, meetOrSlice] = String(preserveAspectRatio ?? 'xMidYMid meet').trim().split(/\s+/);
+        if (align !== 'none') {
+            const s = meetOrSlice === 'slice' ? Math.max(sx, sy) : Math.min(sx, sy);
+            sx = sy = s;
+            const fx = align.includes('xMin') ? 0 : align.includes('xMax') ? 1 : 0.5;
+            const fy = align.includes('YMin') ? 0 : align.includes('YMax') ? 1 : 0.5;
+            tx = (vpW - vbW * s) * fx;
+            ty = (vpH - vbH * s) * fy;
         }
-        return grid;
+        return [sx, 0, 0, sy, tx - minX * sx, ty - minY * sy];
+    }
+
+    /**
+     * Visita `node` e i discendenti con la matrice corrente (CTM): `ctm` è quella del genitore,
+     * il `transform` di ogni elemento si compone con quella ereditata.
+     */
+    private static walk(node: any, ctm: Matrix, visit: (node: any, m: Matrix) => void) {
+        const m = SvgTransform.multiply(ctm, SvgTransform.parse(node.properties?.transform));
+        visit(node, m);
+        if (node.children) {
+            for (const child of node.children) this.walk(child, m, visit);
+        }
+    }
+
+    /**
+     * Path data in unità utente -> sottopercorsi in pixel HeightMap.
+     * La tolleranza (px) viene riportata in unità utente con la scala della matrice.
+     */
+    private static toPixels(d: string, m: Matrix, tolerance: number): FlatSubpath[] {
+        const scale = SvgTransform.scaleFactor(m) || 1;
+        return SvgPathParser.parse(d, tolerance / scale).map(sp => ({
+            points: sp.points.map(p => SvgTransform.apply(m, p)),
+            closed: sp.closed
+        }));
+    }
+
+    /**
+     * Rasterizza un path (in pixel HeightMap) come tratto di spessore `strokeWidth`: la tolleranza di ricerca del seam.
+     */
+    public static rasterizePath(pathData: string, strokeWidth: number, w: number, h: number): Uint8Array {
+        return MaskRasterizer.stroke(SvgPathParser.parse(pathData).map(sp => sp.points), strokeWidth, w, h);
+    }
+
+    /**
+     * Corridoio morbido attorno a un path già in pixel HeightMap (`falloff` in px).
+     */
+    public static softCorridor(path: string | FlatSubpath[], falloff: number, w: number, h: number): SoftCorridor {
+        const subpaths = typeof path === 'string' ? SvgPathParser.parse(path) : path;
+        return { distance: MaskRasterizer.distance(subpaths.map(sp => sp.points), SOFT_CORRIDOR_RANGE * falloff, w, h), falloff };
     }
 
     // --- FIX: Logica di ricerca migliorata ---
-    private static findLayer(node: any, targetName: string): any {
+    // Restituisce anche la CTM del genitore, per comporre i transform del layer e dei suoi elementi
+    private static findLayer(node: any, targetName: string, ctm: Matrix): { node: any, ctm: Matrix } | null {
         if (node.properties) {
             // 1. Controllo ID diretto
-            if (node.properties.id === targetName) return node;
+            if (node.properties.id === targetName) return { node, ctm };
 
             // 2. Controllo Inkscape Label (spesso usato dai software di grafica)
-            if (node.properties['inkscape:label'] === targetName) return node;
+            if (node.properties['inkscape:label'] === targetName) return { node, ctm };
 
             // 3. Controllo Label generico
-            if (node.properties.label === targetName) return node;
+            if (node.properties.label === targetName) return { node, ctm };
         }
 
         if (node.children) {
+            const childCtm = SvgTransform.multiply(ctm, SvgTransform.parse(node.properties?.transform));
             for (const child of node.children) {
-                const found = this.findLayer(child, targetName);
+                const found = this.findLayer(child, targetName, childCtm);
                 if (found) return found;
             }
         }
         return null;
     }
 
-    private static extractPaths(groupNode: any): { d: string, strokeWidth: number }[] {
-        const paths: { d: string, strokeWidth: number }[] = [];
-        // Navigazione ricorsiva dentro il gruppo per trovare tutti i path
-        const traverse = (node: any) => {
-            let strokeWidth = 40; // Default
-            if (node.properties && node.properties['stroke-width']) {
-                const sw = parseFloat(node.properties['stroke-width']);
-                if (!isNaN(sw)) strokeWidth = sw;
+    private static extractSeeds(groupNode: any, ctm: Matrix): GuideSeed[] {
+        const seeds: GuideSeed[] = [];
+        this.walk(groupNode, ctm, (node, m) => {
+            if ((node.tagName === 'circle' || node.tagName === 'ellipse') && node.properties) {
+                const x = parseFloat(node.properties.cx ?? 0);
+                const y = parseFloat(node.properties.cy ?? 0);
+                if (!isNaN(x) && !isNaN(y)) {
+                    const title = (node.children || []).find((c: any) => c.tagName === 'title');
+                    const label = node.properties['data-label'] ?? node.properties['inkscape:label'] ?? title?.children?.[0]?.value;
+                    const p = SvgTransform.apply(m, { x, y });
+                    seeds.push(label !== undefined ? { ...p, label: String(label) } : p);
+                }
             }
+        });
+        return seeds;
+    }
 
-            if (node.tagName === 'path' && node.properties.d) {
-                paths.push({ d: node.properties.d, strokeWidth });
+    // Forme chiuse del layer (path, rect, circle, ellipse, polygon, polyline) in pixel HeightMap
+    private static extractShapes(groupNode: any, ctm: Matrix, tolerance: number): FlatSubpath[][] {
+        const shapes: FlatSubpath[][] = [];
+        const num = (v: any) => parseFloat(v ?? 0) || 0;
+        this.walk(groupNode, ctm, (node, m) => {
+            const p = node.properties || {};
+            let d: string | null = null;
+            switch (node.tagName) {
+                case 'path':
+                    if (p.d) d = p.d;
+                    break;
+                case 'rect':
+                    d = this.rectPath(p);
+                    break;
+                case 'circle':
+                case 'ellipse': {
+                    const cx = num(p.cx), cy = num(p.cy);
+                    const rx = node.tagName === 'circle' ? num(p.r) : num(p.rx);
+                    const ry = node.tagName === 'circle' ? num(p.r) : num(p.ry);
+                    d = `M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`;
+                    break;
+                }
+                case 'polygon':
+                case 'polyline': {
+                    const points = SvgPathParser.parsePoints(String(p.points ?? ''));
+                    if (points.length >= 3) d = SvgPathParser.fromPoints(points, true);
+                    break;
+                }
+            }
+            if (d) shapes.push(this.toPixels(d, m, tolerance));
+        });
+        return shapes;
+    }
+
+    // Contorno di un <rect> (gli angoli arrotondati rx/ry sono ignorati)
+    private static rectPath(props: any): string {
+        const num = (v: any) => parseFloat(v ?? 0) || 0;
+        const x = num(props.x), y = num(props.y), w = num(props.width), h = num(props.height);
+        return SvgPathParser.fromPoints([{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }], true);
+    }
+
+    /**
+     * Percorsi guida in pixel HeightMap, con lo spessore del tratto (px) come tolleranza di ricerca.
+     * `falloff` (px) è valorizzato per i corridoi morbidi: `data-corridor` sceglie per il singolo path,
+     * `data-falloff` (unità utente) ne regola la pendenza, di default metà dello spessore.
+     */
+    private static extractPaths(groupNode: any, ctm: Matrix, tolerance: number, softDefault: boolean): { subpaths: FlatSubpath[], strokeWidth: number, falloff: number | null }[] {
+        const paths: { subpaths: FlatSubpath[], strokeWidth: number, falloff: number | null }[] = [];
+        // Navigazione ricorsiva dentro il gruppo per trovare tutti i path
+        this.walk(groupNode, ctm, (node, m) => {
+            const props = node.properties || {};
+            let d: string | null = null;
+            if (node.tagName === 'path' && props.d) {
+                d = props.d;
             } else if (node.tagName === 'line') {
-                const { x1, y1, x2, y2 } = node.properties;
-                paths.push({ d: `M ${x1} ${y1} L ${x2} ${y2}`, strokeWidth });
+                const { x1, y1, x2, y2 } = props;
+                d = `M ${x1 ?? 0} ${y1 ?? 0} L ${x2 ?? 0} ${y2 ?? 0}`;
+            } else if (node.tagName === 'polyline' || node.tagName === 'polygon') {
+                const points = SvgPathParser.parsePoints(String(props.points ?? ''));
+                if (points.length >= 2) d = SvgPathParser.fromPoints(points, node.tagName === 'polygon');
+            } else if (node.tagName === 'rect') {
+                d = this.rectPath(props);
             }
+            if (!d) return;
+
+            // Lo stroke-width è in unità utente e scala con il transform. Come nel CSS lo style inline
+            // vince sull'attributo di presentazione (Inkscape aggiorna lo style e lascia l'attributo vecchio)
+            let strokeWidth = 40; // Default, in pixel HeightMap
+            const styleMatch = String(props.style ?? '').match(/stroke-width\s*:\s*([^;]+)/);
+            let sw = parseFloat(styleMatch?.[1] ?? '');
+            if (isNaN(sw)) sw = parseFloat(props['stroke-width']);
+            if (!isNaN(sw)) strokeWidth = sw * SvgTransform.scaleFactor(m);
 
-            if (node.children) {
-                node.children.forEach(traverse);
+            const corridor = props['data-corridor'];
+            const soft = corridor === 'soft' || (corridor !== 'hard' && softDefault);
+            let falloff: number | null = null;
+            if (soft) {
+                const f = parseFloat(props['data-falloff']);
+                falloff = !isNaN(f) && f > 0 ? f * SvgTransform.scaleFactor(m) : strokeWidth / 2;
             }
-        };
 
-        traverse(groupNode);
+            paths.push({ subpaths: this.toPixels(d, m, tolerance), strokeWidth, falloff });
+        });
         return paths;
     }
 }
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { HeightMapData } from './HeightMapper';
+
+// Da incrementare quando cambia il modo in cui viene calcolata la HeightMap (rasterizzazione, bounds, ...)
+const CACHE_VERSION = 2;
+const HASH_CHUNK_SIZE = 4 * 1024 * 1024;
+
+type CacheHeader = Omit<HeightMapData, 'grid'> & { version: number, resolution: number };
+
+/**
+ * Cache su disco della HeightMap, indicizzata da hash SHA-256 del contenuto del file + risoluzione.
+ * Ogni voce è un singolo file: [uint32 lunghezza header][header JSON][griglia Float32 little-endian].
+ */
+export class HeightMapCache {
+    private dir: string;
+
+    constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    /**
+     * Chiave della cache. L'hash è calcolato a blocchi per non caricare in memoria STL da GB.
+     */
+    static key(filePath: string, resolution: number): string {
+        const hash = crypto.createHash('sha256');
+        const fd = fs.openSync(filePath, 'r');
+        try {
+            const chunk = Buffer.alloc(HASH_CHUNK_SIZE);
+            let read: number;
+            while ((read = fs.readSync(fd, chunk, 0, chunk.length, null)) > 0) {
+                hash.update(chunk.subarray(0, read));
+            }
+        } finally {
+            fs.closeSync(fd);
+        }
+        hash.update(`|res=${resolution}|v=${CACHE_VERSION}`);
+        return hash.digest('hex').substring(0, 32);
+    }
+
+    load(key: string): HeightMapData | null {
+        const file = this.entryPath(key);
+        if (!fs.existsSync(file)) return null;
+
+        try {
+            const buffer = fs.readFileSync(file);
+            const headerLength = buffer.readUInt32LE(0);
+            const header: CacheHeader = JSON.parse(buffer.toString('utf-8', 4, 4 + headerLength));
+            if (header.version !== CACHE_VERSION) return null;
+
+            const dataStart = 4 + headerLength;
+            const cells = header.width * header.height;
+            if (buffer.length !== dataStart + cells * 4) throw new Error("dimensione inattesa");
+
+            // Copia in un buffer allineato (l'offset nel file non è multiplo di 4)
+            const grid = new Float32Array(cells);
+            Buffer.from(grid.buffer).set(buffer.subarray(dataStart));
+
+            return { grid, width: header.width, height: header.height, maxZ: header.maxZ, bounds: header.bounds };
+        } catch (e: any) {
+            console.warn(`⚠️  Cache HeightMap corrotta (${e.message}), verrà rigenerata.`);
+            return null;
+        }
+    }
+
+    save(key: string, resolution: number, data: HeightMapData) {
+        if (!fs.existsSync(this.dir)) fs.mkdirSync(this.dir, { recursive: true });
+
+        const header: CacheHeader = {
+            version: CACHE_VERSION, resolution,
+            width: data.width, height: data.height, maxZ: data.maxZ, bounds: data.bounds
+        };
+        const headerBytes = Buffer.from(JSON.stringify(header), 'utf-8');
+        const lengthBytes = Buffer.alloc(4);
+        lengthBytes.writeUInt32LE(headerBytes.length, 0);
+
+        // Scrittura su file temporaneo + rename: un'interruzione non lascia voci troncate
+        const file = this.entryPath(key);
+        const tmp = `${file}.tmp`;
+        const fd = fs.openSync(tmp, 'w');
+        try {
+            fs.writeSync(fd, lengthBytes);
+            fs.writeSync(fd, headerBytes);
+            fs.writeSync(fd, Buffer.from(data.grid.buffer, data.grid.byteOffset, data.grid.byteLength));
+        } finally {
+            fs.closeSync(fd);
+        }
+        fs.renameSync(tmp, file);
+    }
+
+    private entryPath(key: string): string {
+        return path.join(this.dir, `heightmap_${key}.bin`);
+    }
+}
@@ -0,0 +1,219 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { HeightMapData, MeshBounds } from './HeightMapper';
+
+/**
+ * Metadata necessari per riconvertire i livelli di grigio in mm.
+ * Z = zMin + (valore / 65535) * (zMax - zMin)
+ */
+export type HeightMapImageMetadata = {
+    version: number;
+    resolution: number;
+    zMin: number;
+    zMax: number;
+    bounds: MeshBounds;
+};
+
+const METADATA_VERSION = 1;
+// Keyword del chunk PNG tEXt con i metadata JSON
+const PNG_TEXT_KEYWORD = 'hueslicer:heightmap';
+const IMAGE_EXTENSIONS = ['.png', '.tif', '.tiff'];
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Export/import della HeightMap come immagine in scala di grigi a 16 bit (PNG o TIFF),
+ * per ispezionarla o ritoccarla a mano e riusarla al posto dell'STL nelle fasi di layout.
+ * La scala Z viene salvata in un chunk tEXt (solo PNG) e sempre in un file `.json` affiancato,
+ * che sopravvive anche agli editor che scartano i metadata.
+ */
+export class HeightMapImage {
+
+    static isImage(filePath: string): boolean {
+        return IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+    }
+
+    static async export(data: HeightMapData, resolution: number, outPath: string): Promise<void> {
+        let zMin = Infinity, zMax = -Infinity;
+        for (let i = 0; i < data.grid.length; i++) {
+            if (data.grid[i] < zMin) zMin = data.grid[i];
+            if (data.grid[i] > zMax) zMax = data.grid[i];
+        }
+        const range = zMax - zMin || 1;
+
+        const pixels = new Uint16Array(data.grid.length);
+        for (let i = 0; i < data.grid.length; i++) {
+            pixels[i] = Math.round(((data.grid[i] - zMin) / range) * 65535);
+        }
+
+        const metadata: HeightMapImageMetadata = { version: METADATA_VERSION, resolution, zMin, zMax, bounds: data.bounds };
+        const sharp = this.loadSharp();
+        const image = sharp(pixels, { raw: { width: data.width, height: data.height, channels: 1 } }).toColourspace('grey16');
+        const ext = path.extname(outPath).toLowerCase();
+
+        if (ext === '.png') {
+            const png = await image.png().toBuffer();
+            fs.writeFileSync(outPath, this.insertPngText(png, PNG_TEXT_KEYWORD, JSON.stringify(metadata)));
+        } else if (ext === '.tif' || ext === '.tiff') {
+            await image.tiff({ compression: 'deflate' }).toFile(outPath);
+        } else {
+            throw new Error(`Formato HeightMap non supportato: "${ext}" (usa .png, .tif o .tiff)`);
+        }
+
+        fs.writeFileSync(this.sidecarPath(outPath), JSON.stringify(metadata, null, 2));
+        console.log(`🗺️  HeightMap 16-bit salvata in: ${outPath} (Z ${zMin.toFixed(2)}..${zMax.toFixed(2)}mm)`);
+    }
+
+    /**
+     * Anteprima 8 bit in scala di grigi (PNG), da usare come sfondo nei file SVG.
+     */
+    static async renderPng(data: HeightMapData): Promise<Buffer> {
+        return this.grayPng(data.grid, data.width, data.height);
+    }
+
+    /**
+     * PNG 8 bit in scala di grigi di una griglia di valori, scalati da `min` (nero) a `max` (bianco),
+     * di default il minimo e il massimo della griglia. Codificato con lo zlib di Node, senza binari nativi:
+     * le anteprime funzionano anche dove sharp o canvas non si installano.
+     */
+    static grayPng(values: Float32Array, width: number, height: number, scale?: { min: number, max: number }): Buffer {
+        let min = Infinity, max = -Infinity;
+        if (scale) {
+            ({ min, max } = scale);
+        } else {
+            for (let i = 0; i < values.length; i++) {
+                if (values[i] < min) min = values[i];
+                if (values[i] > max) max = values[i];
+            }
+        }
+        const range = max - min || 1;
+
+        // Ogni riga è preceduta dal byte di filtro (0 = nessuno)
+        const raw = Buffer.alloc((width + 1) * height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const v = Math.floor(((values[y * width + x] - min) / range) * 255);
+                raw[y * (width + 1) + 1 + x] = Math.min(255, Math.max(0, v));
+            }
+        }
+
+        const ihdr = Buffer.alloc(13);
+        ihdr.writeUInt32BE(width, 0);
+        ihdr.writeUInt32BE(height, 4);
+        ihdr[8] = 8; // bit per campione
+        ihdr[9] = 0; // scala di grigi
+        return Buffer.concat([
+            Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+            this.pngChunk('IHDR', ihdr),
+            this.pngChunk('IDAT', zlib.deflateSync(raw)),
+            this.pngChunk('IEND', Buffer.alloc(0))
+        ]);
+    }
+
+    static async load(filePath: string): Promise<{ data: HeightMapData, resolution: number }> {
+        const metadata = this.readMetadata(filePath);
+
+        // grey16 normalizza anche immagini 8 bit o RGB salvate da un editor
+        const sharp = this.loadSharp();
+        const { data: raw, info } = await sharp(filePath)
+            .toColourspace('grey16')
+            .raw({ depth: 'ushort' })
+            .toBuffer({ resolveWithObject: true });
+
+        const values = new Uint16Array(raw.buffer, raw.byteOffset, raw.byteLength / 2);
+        const grid = new Float32Array(info.width * info.height);
+        const range = metadata.zMax - metadata.zMin;
+        for (let i = 0; i < grid.length; i++) {
+            grid[i] = metadata.zMin + (values[i * info.channels] / 65535) * range;
+        }
+
+        console.log(`🗺️  HeightMap caricata da immagine: ${info.width}x${info.height} pixels (Res: ${metadata.resolution}mm)`);
+        return {
+            data: { grid, width: info.width, height: info.height, maxZ: metadata.zMax, bounds: metadata.bounds },
+            resolution: metadata.resolution
+        };
+    }
+
+    // Caricato solo quando serve: le esecuzioni che non usano immagini non dipendono dal binario nativo
+    private static loadSharp(): typeof import('sharp') {
+        return require('sharp');
+    }
+
+    private static readMetadata(filePath: string): HeightMapImageMetadata {
+        let json: string | null = null;
+        if (path.extname(filePath).toLowerCase() === '.png') {
+            json = this.readPngText(fs.readFileSync(filePath), PNG_TEXT_KEYWORD);
+        }
+        if (!json && fs.existsSync(this.sidecarPath(filePath))) {
+            json = fs.readFileSync(this.sidecarPath(filePath), 'utf-8');
+        }
+        if (!json) {
+            throw new Error(
+                `Metadata della HeightMap mancanti per "${path.basename(filePath)}": ` +
+                `serve il chunk PNG '${PNG_TEXT_KEYWORD}' o il file "${path.basename(this.sidecarPath(filePath))}".`
+            );
+        }
+
+        const metadata = JSON.parse(json) as HeightMapImageMetadata;
+        if (metadata.version !== METADATA_VERSION) {
+            throw new Error(`Versione metadata HeightMap non supportata: ${metadata.version}`);
+        }
+        return metadata;
+    }
+
+    private static sidecarPath(imagePath: string): string {
+        return `${imagePath}.json`;
+    }
+
+    // Chunk PNG: lunghezza, tipo, dati e CRC di tipo + dati
+    private static pngChunk(type: string, payload: Buffer): Buffer {
+        const chunk = Buffer.alloc(12 + payload.length);
+        chunk.writeUInt32BE(payload.length, 0);
+        chunk.write(type, 4, 'latin1');
+        payload.copy(chunk, 8);
+        chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + payload.length)), 8 + payload.length);
+        return chunk;
+    }
+
+    // Inserisce un chunk tEXt subito dopo IHDR (signature 8 bytes + IHDR 25 bytes)
+    private static insertPngText(png: Buffer, keyword: string, text: string): Buffer {
+        const payload = Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0]), Buffer.from(text, 'latin1')]);
+        const chunk = this.pngChunk('tEXt', payload);
+
+        const ihdrEnd = 8 + 25;
+        return Buffer.concat([png.subarray(0, ihdrEnd), chunk, png.subarray(ihdrEnd)]);
+    }
+
+    private static readPngText(png: Buffer, keyword: string): string | null {
+        let offset = 8;
+        while (offset + 12 <= png.length) {
+            const length = png.readUInt32BE(offset);
+            const type = png.toString('latin1', offset + 4, offset + 8);
+            if (type === 'tEXt') {
+                const data = png.subarray(offset + 8, offset + 8 + length);
+                const sep = data.indexOf(0);
+                if (sep !== -1 && data.toString('latin1', 0, sep) === keyword) {
+                    return data.toString('latin1', sep + 1);
+                }
+            }
+            if (type === 'IEND') break;
+            offset += 12 + length;
+        }
+        return null;
+    }
+}
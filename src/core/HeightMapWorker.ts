@@ -0,0 +1,57 @@
+import { parentPort, workerData } from 'worker_threads';
+import { GridFrame, TriangleRasterizer } from './TriangleRasterizer';
+
+/**
+ * Worker di rasterizzazione (vedi HeightMapper, opzione `jobs`).
+ * Ogni worker scrive nel proprio Z-Buffer condiviso: il thread principale fa la riduzione (max) alla fine,
+ * quindi non servono operazioni atomiche sulle celle.
+ */
+export type HeightMapWorkerData = {
+    index: number;
+    frame: GridFrame;
+    zBuffer: SharedArrayBuffer;
+    // Un contatore per worker: batch inviati e non ancora rasterizzati (controllo di flusso)
+    inflight: SharedArrayBuffer;
+    // Battito per worker: cresce mentre rasterizza, WORKER_FAILED se è fallito. Il thread principale,
+    // bloccato in Atomics.wait, non riceve gli eventi 'error'/'exit': si accorge così di un worker morto
+    heartbeat: SharedArrayBuffer;
+};
+
+export const WORKER_FAILED = -1;
+
+// Triangoli tra due battiti
+const HEARTBEAT_TRIANGLES = 1024;
+
+export type HeightMapWorkerMessage = { type: 'batch', triangles: Float32Array } | { type: 'done' };
+
+if (parentPort) {
+    const { index, frame, zBuffer, inflight, heartbeat } = workerData as HeightMapWorkerData;
+    const grid = new Float32Array(zBuffer);
+    const counters = new Int32Array(inflight);
+    const beats = new Int32Array(heartbeat);
+    const port = parentPort;
+
+    port.on('message', (msg: HeightMapWorkerMessage) => {
+        if (msg.type === 'batch') {
+            try {
+                const tris = msg.triangles;
+                for (let offset = 0; offset < tris.length; offset += 9) {
+                    TriangleRasterizer.rasterize(tris.subarray(offset, offset + 9), grid, frame);
+                    if (offset % (HEARTBEAT_TRIANGLES * 9) === 0) Atomics.add(beats, index, 1);
+                }
+            } catch (e) {
+                Atomics.store(beats, index, WORKER_FAILED);
+                Atomics.notify(counters, index);
+                throw e;
+            }
+            Atomics.add(beats, index, 1);
+            Atomics.sub(counters, index, 1);
+            Atomics.notify(counters, index);
+        } else if (msg.type === 'done') {
+            port.postMessage('done');
+        }
+    });
+
+    // Handshake: il thread principale inizia lo streaming solo quando tutti i worker sono caricati
+    port.postMessage('ready');
+}
@@ -1,42 +1,63 @@
-import fs from 'fs';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { MeshReader, ProgressCallback } from './mesh/MeshReader';
+import { MeshReaders } from './mesh/MeshReaders';
+import { GridFrame, TriangleRasterizer } from './TriangleRasterizer';
+import { HeightMapWorkerData, HeightMapWorkerMessage, WORKER_FAILED } from './HeightMapWorker';
+
+/** Bounding box della mesh in coordinate mondo (mm) */
+export type MeshBounds = { minX: number, maxX: number, minY: number, maxY: number, minZ: number, maxZ: number };
+
+export type HeightMapOptions = {
+    /** Numero di worker_threads per la rasterizzazione (1 = thread principale) */
+    jobs?: number;
+};
+
+// Triangoli per messaggio verso i worker e batch massimi in coda per worker (limita la memoria in volo)
+const WORKER_BATCH_TRIANGLES = 16384;
+const WORKER_MAX_INFLIGHT = 4;
+// Un worker con batch in coda che non dà segni di vita per tanto è considerato morto (es. out-of-memory)
+const WORKER_STALL_MS = 60000;
+
+/**
+ * HeightMap + sistema di riferimento: la cella (0,0) è l'angolo (bounds.minX, bounds.maxY) del modello,
+ * così i layout in mm (origine in alto a sinistra, Y verso il basso) possono essere riportati in coordinate mondo.
+ */
+export type HeightMapData = { grid: Float32Array, width: number, height: number, maxZ: number, bounds: MeshBounds };
 
 export class HeightMapper {
     // Configurazione risoluzione (mm per pixel)
     // 0.1mm è buono per HueForge
 
-    static async stlToGrid(filePath: string, resolution: number): Promise<{ grid: Float32Array, width: number, height: number, maxZ: number }> {
-        const buffer = fs.readFileSync(filePath);
-
-        // STL Binary Header è 80 bytes
-        // Poi 4 bytes (unsigned long) per il numero di triangoli
-        const triangleCount = buffer.readUInt32LE(80);
+    /**
+     * Genera la HeightMap da un file mesh (STL, 3MF o OBJ: il reader è scelto da MeshReaders).
+     */
+    static async stlToGrid(filePath: string, resolution: number, options: HeightMapOptions = {}): Promise<HeightMapData> {
+        return this.meshToGrid(MeshReaders.open(filePath), resolution, options);
+    }
 
-        console.log(`Processing STL: ${triangleCount} triangles...`);
+    static async meshToGrid(reader: MeshReader, resolution: number, options: HeightMapOptions = {}): Promise<HeightMapData> {
 
         // Step 1: Trovare i limiti (Bounding Box) per dimensionare la griglia
         let minX = Infinity, maxX = -Infinity;
         let minY = Infinity, maxY = -Infinity;
-        let maxZ = -Infinity;
+        let minZ = Infinity, maxZ = -Infinity;
 
         // Loop veloce per trovare le dimensioni
-        // Ogni triangolo è 50 bytes: Normal(12) + V1(12) + V2(12) + V3(12) + Attr(2)
-        const headerSize = 84;
-
-        for (let i = 0; i < triangleCount; i++) {
-            const offset = headerSize + (i * 50);
-            for (let v = 0; v < 3; v++) {
-                const vOffset = offset + 12 + (v * 12); // Salta la normale
-                const x = buffer.readFloatLE(vOffset);
-                const y = buffer.readFloatLE(vOffset + 4);
-                const z = buffer.readFloatLE(vOffset + 8);
+        const triangleCount = reader.forEachTriangle((v) => {
+            for (let k = 0; k < 9; k += 3) {
+                const x = v[k], y = v[k + 1], z = v[k + 2];
 
                 if (x < minX) minX = x;
                 if (x > maxX) maxX = x;
                 if (y < minY) minY = y;
                 if (y > maxY) maxY = y;
+                if (z < minZ) minZ = z;
                 if (z > maxZ) maxZ = z;
             }
-        }
+        }, this.progressLogger('Bounding box'));
+
+        console.log(`Processing ${reader.format.toUpperCase()}: ${triangleCount} triangles...`);
 
         const widthMm = maxX - minX;
         const heightMm = maxY - minY;
@@ -44,72 +65,159 @@ export class HeightMapper {
         const gridH = Math.ceil(heightMm / resolution);
 
         console.log(`Dimensioni Mesh: ${widthMm.toFixed(1)}x${heightMm.toFixed(1)}mm`);
+        console.log(`Origine Mesh: X ${minX.toFixed(2)} Y ${minY.toFixed(2)} Z ${minZ.toFixed(2)}`);
         console.log(`Griglia Analisi: ${gridW}x${gridH} pixels (Res: ${resolution}mm)`);
 
         // Step 2: Popolare la HeightMap (Z-Buffer)
-        // Inizializza con 0 (o -1 se necessario, ma 0 è ok per depth map base)
-        const grid = new Float32Array(gridW * gridH).fill(0);
-
-        for (let i = 0; i < triangleCount; i++) {
-            const offset = headerSize + (i * 50);
-            // Prendiamo solo i vertici (approx point cloud)
-            for (let v = 0; v < 3; v++) {
-                const vOffset = offset + 12 + (v * 12);
-                const x = buffer.readFloatLE(vOffset);
-                const y = buffer.readFloatLE(vOffset + 4);
-                const z = buffer.readFloatLE(vOffset + 8);
-
-                // Mappa coordinate mondo -> coordinate griglia
-                const gx = Math.floor((x - minX) / resolution);
-                const gy = Math.floor((maxY - y) / resolution);
-
-                // Safe check e Z-Buffer (tieni il punto più alto)
-                if (gy >= 0 && gy < gridH && gx >= 0 && gx < gridW) {
-                    const idx = gy * gridW + gx;
-                    if (z > grid[idx]) {
-                        grid[idx] = z;
-                    }
-                }
-            }
+        // Rasterizzazione vera dei triangoli: ogni cella coperta riceve la Z della superficie superiore
+        const frame: GridFrame = { minX, maxY, resolution, width: gridW, height: gridH };
+        const jobs = Math.max(1, Math.floor(options.jobs ?? 1));
+        let grid: Float32Array;
+
+        if (jobs > 1) {
+            console.log(`   -> Rasterizzazione parallela su ${jobs} worker`);
+            grid = await this.rasterizeParallel(reader, frame, jobs);
+        } else {
+            // -Infinity: la Z è assoluta e un modello può stare anche sotto il piano (minZ < 0)
+            grid = new Float32Array(gridW * gridH).fill(-Infinity);
+            reader.forEachTriangle((v) => TriangleRasterizer.rasterize(v, grid, frame), this.progressLogger('Rasterizzazione'));
+        }
+        // Celle non coperte da nessun triangolo: base del modello, così bounds.minZ + h resta coerente ovunque
+        for (let i = 0; i < grid.length; i++) {
+            if (grid[i] === -Infinity) grid[i] = minZ;
         }
 
-        // Step 3: Post-processing (Gap Filling semplice)
-        this.fillGaps(grid, gridW, gridH);
-
-        return { grid, width: gridW, height: gridH, maxZ };
+        return { grid, width: gridW, height: gridH, maxZ, bounds: { minX, maxX, minY, maxY, minZ, maxZ } };
     }
 
-    private static fillGaps(grid: Float32Array, w: number, h: number) {
-        // Nota: Questa implementazione semplice non è perfetta per Float32Array in place,
-        // ma va bene per buchi isolati.
-        for (let y = 1; y < h - 1; y++) {
-            const rowOffset = y * w;
-            const prevRowOffset = (y - 1) * w;
-            const nextRowOffset = (y + 1) * w;
-
-            for (let x = 1; x < w - 1; x++) {
-                const idx = rowOffset + x;
-
-                if (grid[idx] === 0) {
-                    // Media dei vicini se il punto è vuoto
-                    // idx-1, idx+1, prevRow+x, nextRow+x
-                    const left = grid[idx - 1];
-                    const right = grid[idx + 1];
-                    const top = grid[prevRowOffset + x];
-                    const bottom = grid[nextRowOffset + x];
-
-                    let sum = 0;
-                    let count = 0;
-                    if (left > 0) { sum += left; count++; }
-                    if (right > 0) { sum += right; count++; }
-                    if (top > 0) { sum += top; count++; }
-                    if (bottom > 0) { sum += bottom; count++; }
-
-                    if (count > 0) {
-                        grid[idx] = sum / count;
+    /**
+     * Distribuisce i triangoli a `jobs` worker, ognuno con il proprio Z-Buffer in SharedArrayBuffer,
+     * e unisce i risultati con una riduzione max (il punto più alto vince, come nel caso sequenziale).
+     * La lettura resta sequenziale e sincrona: se tutti i worker hanno la coda piena il thread principale
+     * si blocca su Atomics.wait finché uno di loro non libera un posto. Se un worker fallisce (errore o uscita
+     * inattesa) la promise viene rifiutata e gli altri worker terminati.
+     */
+    private static async rasterizeParallel(reader: MeshReader, frame: GridFrame, jobs: number): Promise<Float32Array> {
+        const cells = frame.width * frame.height;
+        const inflight = new SharedArrayBuffer(4 * jobs);
+        const counters = new Int32Array(inflight);
+        const heartbeat = new SharedArrayBuffer(4 * jobs);
+        const beats = new Int32Array(heartbeat);
+
+        // Con ts-node il worker è un .ts e deve registrare il compilatore a sua volta
+        const ext = path.extname(__filename);
+        const workerFile = path.join(__dirname, `HeightMapWorker${ext}`);
+        const execArgv = ext === '.ts' ? ['--require', 'ts-node/register'] : undefined;
+
+        const zBuffers: SharedArrayBuffer[] = [];
+        const workers: Worker[] = [];
+        // Rifiutata al primo errore o all'uscita del worker: i listener sono attivi da subito, nessun evento va perso
+        const failures: Promise<never>[] = [];
+        for (let i = 0; i < jobs; i++) {
+            const zBuffer = new SharedArrayBuffer(cells * 4);
+            new Float32Array(zBuffer).fill(-Infinity);
+            const workerData: HeightMapWorkerData = { index: i, frame, zBuffer, inflight, heartbeat };
+            const worker = new Worker(workerFile, { workerData, execArgv });
+            const failure = new Promise<never>((_, reject) => {
+                worker.once('error', (e) => reject(new Error(`Worker ${i} fallito durante la rasterizzazione: ${e.message}`)));
+                worker.once('exit', (code) => reject(new Error(`Worker ${i} terminato inaspettatamente (codice ${code})`)));
+            });
+            failure.catch(() => { });
+            zBuffers.push(zBuffer);
+            workers.push(worker);
+            failures.push(failure);
+        }
+
+        const nextMessage = (i: number) => Promise.race([
+            new Promise<void>((resolve) => workers[i].once('message', () => resolve())),
+            failures[i]
+        ]);
+
+        // Durante lo streaming il thread principale non processa eventi: la salute dei worker si legge dai battiti
+        let lastBeat: number[] = [], lastChange: number[] = [];
+        const checkWorkers = () => {
+            const now = Date.now();
+            for (let i = 0; i < jobs; i++) {
+                const beat = Atomics.load(beats, i);
+                if (beat === WORKER_FAILED) throw new Error(`Worker ${i} fallito durante la rasterizzazione`);
+                if (beat !== lastBeat[i] || Atomics.load(counters, i) === 0) {
+                    lastBeat[i] = beat;
+                    lastChange[i] = now;
+                } else if (now - lastChange[i] > WORKER_STALL_MS) {
+                    throw new Error(`Worker ${i} non risponde da ${WORKER_STALL_MS / 1000}s (memoria esaurita?)`);
+                }
+            }
+        };
+
+        try {
+            await Promise.all(workers.map((_, i) => nextMessage(i))); // 'ready'
+            lastBeat = Array.from(beats);
+            lastChange = lastBeat.map(() => Date.now());
+
+            let batch = new Float32Array(WORKER_BATCH_TRIANGLES * 9);
+            let filled = 0;
+
+            const flush = () => {
+                if (filled === 0) return;
+                // Worker con meno batch in coda; se sono tutti pieni aspetta che uno si liberi
+                let target = 0;
+                for (; ;) {
+                    for (let i = 1; i < jobs; i++) {
+                        if (Atomics.load(counters, i) < Atomics.load(counters, target)) target = i;
                     }
+                    const pending = Atomics.load(counters, target);
+                    if (pending < WORKER_MAX_INFLIGHT) break;
+                    Atomics.wait(counters, target, pending, 100);
+                    checkWorkers();
                 }
+
+                Atomics.add(counters, target, 1);
+                const triangles = filled === batch.length ? batch : batch.slice(0, filled);
+                const msg: HeightMapWorkerMessage = { type: 'batch', triangles };
+                workers[target].postMessage(msg, [triangles.buffer]);
+                batch = new Float32Array(WORKER_BATCH_TRIANGLES * 9);
+                filled = 0;
+            };
+
+            reader.forEachTriangle((v) => {
+                batch.set(v, filled);
+                filled += 9;
+                if (filled === batch.length) flush();
+            }, this.progressLogger('Rasterizzazione'));
+            flush();
+
+            await Promise.all(workers.map((w, i) => {
+                const done = nextMessage(i);
+                const msg: HeightMapWorkerMessage = { type: 'done' };
+                w.postMessage(msg);
+                return done;
+            }));
+        } finally {
+            await Promise.all(workers.map(w => w.terminate()));
+        }
+
+        // Riduzione max dei Z-Buffer parziali
+        const grid = new Float32Array(zBuffers[0]).slice();
+        for (let k = 1; k < zBuffers.length; k++) {
+            const partial = new Float32Array(zBuffers[k]);
+            for (let i = 0; i < cells; i++) {
+                if (partial[i] > grid[i]) grid[i] = partial[i];
             }
         }
+        return grid;
+    }
+
+    /**
+     * Log dell'avanzamento a scatti del 25% (le passate sugli STL da GB durano minuti).
+     */
+    private static progressLogger(phase: string): ProgressCallback {
+        let lastStep = 0;
+        return (processed, total) => {
+            const step = Math.floor((processed / total) * 4);
+            if (step > lastStep) {
+                lastStep = step;
+                console.log(`   -> ${phase}: ${step * 25}%`);
+            }
+        };
     }
 }
\ No newline at end of file
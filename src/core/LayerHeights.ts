@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Quote dei cambi colore (filament swap) di un progetto HueForge, in mm dal piano di stampa.
+ * I tagli che seguono queste isolinee restano nascosti nel passaggio di colore.
+ */
+export class LayerHeights {
+
+    /**
+     * Legge le quote da file: array JSON, oggetto JSON `{ "layerHeights": [...] }`
+     * o testo HueForge (istruzioni di swap) con le quote nella forma "(0.88mm)".
+     */
+    static load(filePath: string): number[] {
+        return this.parse(fs.readFileSync(filePath, 'utf-8'), path.basename(filePath));
+    }
+
+    static parse(text: string, sourceName: string = 'input'): number[] {
+        const trimmed = text.trim();
+        let heights: number[] = [];
+
+        if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+            const json = JSON.parse(trimmed);
+            const list = Array.isArray(json) ? json : json.layerHeights;
+            if (!Array.isArray(list)) {
+                throw new Error(`Quote layer non valide in "${sourceName}": atteso un array o { "layerHeights": [...] }`);
+            }
+            heights = list.map(Number);
+        } else {
+            for (const match of trimmed.matchAll(/\(\s*(\d+(?:\.\d+)?)\s*mm\s*\)/gi)) {
+                heights.push(parseFloat(match[1]));
+            }
+        }
+
+        return this.normalize(heights, sourceName);
+    }
+
+    /** Lista da CLI, es. "0.48,0.88,1.28". */
+    static fromList(list: string): number[] {
+        return this.normalize(list.split(/[,;\s]+/).filter(t => t.length > 0).map(Number), 'lista CLI');
+    }
+
+    /**
+     * Maschera delle celle dove la superficie attraversa una quota (vicinato 4):
+     * vengono marcate entrambe le celle ai lati dell'isolinea.
+     * @param heights quote assolute (già sommate a bounds.minZ), ordinate
+     */
+    static isolineMask(grid: Float32Array, width: number, height: number, heights: number[]): Uint8Array {
+        const mask = new Uint8Array(width * height);
+        if (heights.length === 0) return mask;
+
+        // Esiste una quota h con lo < h <= hi?
+        const crosses = (a: number, b: number): boolean => {
+            const lo = Math.min(a, b), hi = Math.max(a, b);
+            let l = 0, r = heights.length;
+            while (l < r) {
+                const m = (l + r) >> 1;
+                if (heights[m] <= lo) l = m + 1; else r = m;
+            }
+            return l < heights.length && heights[l] <= hi;
+        };
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const idx = y * width + x;
+                if (x < width - 1 && crosses(grid[idx], grid[idx + 1])) { mask[idx] = 1; mask[idx + 1] = 1; }
+                if (y < height - 1 && crosses(grid[idx], grid[idx + width])) { mask[idx] = 1; mask[idx + width] = 1; }
+            }
+        }
+        return mask;
+    }
+
+    private static normalize(heights: number[], sourceName: string): number[] {
+        const invalid = heights.find(h => !isFinite(h) || h < 0);
+        if (invalid !== undefined) throw new Error(`Quota layer non valida in ${sourceName}: ${invalid}`);
+        if (heights.length === 0) throw new Error(`Nessuna quota layer trovata in ${sourceName}`);
+        return Array.from(new Set(heights)).sort((a, b) => a - b);
+    }
+}
@@ -0,0 +1,217 @@
+import { Point2D } from '../utils/GeometryUtils';
+
+export type LayoutKind = 'grid' | 'brick' | 'hex' | 'diagonal';
+
+export const LAYOUT_KINDS: LayoutKind[] = ['grid', 'brick', 'hex', 'diagonal'];
+
+/**
+ * Cella del layout: seme (centro) e bounding box, già ritagliati sul modello (mm).
+ */
+export type LayoutCell = { seed: Point2D, x0: number, y0: number, x1: number, y1: number };
+
+/**
+ * Layout dell'auto-tiling in mm (origine in alto a sinistra, Y verso il basso).
+ * I tagli sono spezzate: `verticals` avanzano soprattutto lungo Y, `horizontals` lungo X
+ * (è l'asse su cui SeamFinder cerca il seam); possono essere parziali e finire su altri tagli.
+ */
+export type Layout = {
+    kind: LayoutKind;
+    verticals: Point2D[][];
+    horizontals: Point2D[][];
+    cells: LayoutCell[];
+    // Passo delle celle: ogni tile intero ha la bounding box entro cellWidth x cellHeight
+    cellWidth: number;
+    cellHeight: number;
+    // Spazio per lato (mm) tolto al piatto prima di dimensionare le celle: margine per la deviazione dei seam
+    reserve: number;
+};
+
+// Layout prima della riserva, come lo costruiscono i singoli schemi
+type CellLayout = Omit<Layout, 'reserve'>;
+
+/**
+ * Guide e semi dell'auto-tiling per un modello width x height e un piatto bedWidth x bedHeight (mm).
+ * - grid: griglia rettangolare, i tagli si incrociano a "+" dove si toccano quattro tile.
+ * - brick: righe a tutta larghezza, giunti verticali sfalsati di mezza cella a righe alterne.
+ * - hex: nido d'ape, righe a zig-zag e lati verticali sfalsati; solo giunzioni a tre.
+ * - diagonal: rombi, tagli inclinati che non seguono gli assi dell'immagine.
+ * In tutti i casi la bounding box di ogni tile entra nel piatto.
+ *
+ * `offset` (solo grid e brick) sposta il reticolo dei tagli senza cambiare il numero di celle:
+ * le celle sul bordo crescono o calano di |offset|, quindi entra nel piatto solo finché resta
+ * entro il margine tra cella e piatto (è LayoutPlanner a sceglierlo).
+ *
+ * `reserve` riduce il piatto di tanto per lato: il seam può allontanarsi dalla guida fino a metà corridoio,
+ * quindi un tile tra due seam cresce fino a 2 * reserve rispetto alla cella.
+ */
+export class LayoutGenerator {
+
+    static generate(
+        kind: LayoutKind, width: number, height: number, bedWidth: number, bedHeight: number,
+        offset: Point2D = { x: 0, y: 0 }, reserve: number = 0
+    ): Layout {
+        const bedW = bedWidth - 2 * reserve, bedH = bedHeight - 2 * reserve;
+        if (!(bedW > 0 && bedH > 0)) {
+            throw new Error(`Piatto ${bedWidth}x${bedHeight}mm troppo piccolo per una riserva di ${reserve.toFixed(1)}mm per lato`);
+        }
+        switch (kind) {
+            case 'brick': return { ...this.brick(width, height, bedW, bedH, offset), reserve };
+            case 'hex': return { ...this.hex(width, height, bedW, bedH), reserve };
+            case 'diagonal': return { ...this.diagonal(width, height, bedW, bedH), reserve };
+            default: return { ...this.grid(width, height, bedW, bedH, offset), reserve };
+        }
+    }
+
+    private static grid(width: number, height: number, bedWidth: number, bedHeight: number, offset: Point2D): CellLayout {
+        const cols = Math.ceil(width / bedWidth);
+        const rows = Math.ceil(height / bedHeight);
+        const cw = width / cols, ch = height / rows;
+        const xs = this.joints(0, cw, offset.x, width), ys = this.joints(0, ch, offset.y, height);
+
+        const verticals: Point2D[][] = xs.map(x => [{ x, y: 0 }, { x, y: height }]);
+        const horizontals: Point2D[][] = ys.map(y => [{ x: 0, y }, { x: width, y }]);
+
+        const cells: LayoutCell[] = [];
+        const colEdges = [0, ...xs, width], rowEdges = [0, ...ys, height];
+        for (let j = 0; j + 1 < rowEdges.length; j++) {
+            for (let i = 0; i + 1 < colEdges.length; i++) {
+                cells.push(this.cell(colEdges[i], rowEdges[j], colEdges[i + 1], rowEdges[j + 1], width, height));
+            }
+        }
+        return { kind: 'grid', verticals, horizontals, cells, cellWidth: cw + Math.abs(offset.x), cellHeight: ch + Math.abs(offset.y) };
+    }
+
+    // Come la griglia, ma nelle righe dispari i giunti sono spostati di mezza cella (con una sola colonna non c'è nulla da sfalsare)
+    private static brick(width: number, height: number, bedWidth: number, bedHeight: number, offset: Point2D): CellLayout {
+        const cols = Math.ceil(width / bedWidth);
+        const rows = Math.ceil(height / bedHeight);
+        const cw = width / cols, ch = height / rows;
+        const staggered = (j: number) => cols > 1 && j % 2 === 1;
+        const rowEdges = [0, ...this.joints(0, ch, offset.y, height), height];
+
+        const verticals: Point2D[][] = [];
+        const horizontals: Point2D[][] = rowEdges.slice(1, -1).map(y => [{ x: 0, y }, { x: width, y }]);
+        const cells: LayoutCell[] = [];
+        for (let j = 0; j + 1 < rowEdges.length; j++) {
+            const top = rowEdges[j], bottom = rowEdges[j + 1];
+            const joints = this.joints(staggered(j) ? cw / 2 : 0, cw, offset.x, width);
+            for (const x of joints) verticals.push([{ x, y: top }, { x, y: bottom }]);
+
+            const edges = [0, ...joints, width];
+            for (let k = 0; k + 1 < edges.length; k++) cells.push(this.cell(edges[k], top, edges[k + 1], bottom, width, height));
+        }
+        return { kind: 'brick', verticals, horizontals, cells, cellWidth: cw + Math.abs(offset.x), cellHeight: ch + Math.abs(offset.y) };
+    }
+
+    /**
+     * Esagoni con il vertice in alto: larghezza cw (tra i lati verticali), altezza 4/3 del passo tra le righe.
+     * Tra due righe il confine è uno zig-zag a tutta larghezza; i lati verticali di ogni riga vanno da uno zig-zag
+     * all'altro (o al bordo, per la prima e l'ultima riga, dove gli esagoni restano tagliati in piano).
+     */
+    private static hex(width: number, height: number, bedWidth: number, bedHeight: number): CellLayout {
+        const cols = Math.ceil(width / bedWidth);
+        const rows = Math.max(1, Math.ceil(height / (0.75 * bedHeight)));
+        const cw = width / cols, p = height / rows;
+        // Centri della riga j: metà cella più in là nelle righe pari, sui lati delle pari in quelle dispari
+        const centers = (j: number) => {
+            const xs: number[] = [];
+            const offset = j % 2 === 0 ? 0.5 : 0;
+            for (let i = 0; offset + i <= cols; i++) xs.push((offset + i) * cw);
+            return xs;
+        };
+        const sides = (j: number) => centers(j + 1).filter(x => x > 1e-9 && x < width - 1e-9);
+
+        const horizontals: Point2D[][] = [];
+        for (let j = 0; j + 1 < rows; j++) {
+            // Vertici bassi della riga j e alti della riga j + 1, alternati lungo X
+            const lower = centers(j).map(x => ({ x, y: (j + 7 / 6) * p }));
+            const upper = centers(j + 1).map(x => ({ x, y: (j + 5 / 6) * p }));
+            // Una delle due righe è dispari: lo zig-zag parte da x = 0 e arriva a x = width
+            horizontals.push([...lower, ...upper].sort((a, b) => a.x - b.x));
+        }
+
+        const verticals: Point2D[][] = [];
+        const cells: LayoutCell[] = [];
+        for (let j = 0; j < rows; j++) {
+            const top = j === 0 ? 0 : (j + 1 / 6) * p;
+            const bottom = j === rows - 1 ? height : (j + 5 / 6) * p;
+            for (const x of sides(j)) verticals.push([{ x, y: top }, { x, y: bottom }]);
+            for (const x of centers(j)) {
+                const cell = this.cell(x - cw / 2, (j - 1 / 6) * p, x + cw / 2, (j + 7 / 6) * p, width, height);
+                // Mezzi esagoni sul bordo: il seme va all'interno
+                cell.seed = { x: Math.min(Math.max(x, cw / 4), width - cw / 4), y: (j + 0.5) * p };
+                cells.push(cell);
+            }
+        }
+        return { kind: 'hex', verticals, horizontals, cells, cellWidth: cw, cellHeight: 4 * p / 3 };
+    }
+
+    /**
+     * Rombi larghi cw e alti ch: le due famiglie di tagli x/cw ± y/ch = k attraversano il modello in diagonale.
+     * Ogni taglio va da bordo a bordo; i semi sono i centri dei rombi (mezzi rombi lungo il bordo compresi).
+     */
+    private static diagonal(width: number, height: number, bedWidth: number, bedHeight: number): CellLayout {
+        const cols = Math.ceil(width / bedWidth);
+        const rows = Math.ceil(height / bedHeight);
+        const cw = width / cols, ch = height / rows;
+
+        const verticals: Point2D[][] = [];
+        const horizontals: Point2D[][] = [];
+        // u = x/cw + y/ch in (0, cols + rows), v = x/cw - y/ch in (-rows, cols)
+        for (let k = 1; k < cols + rows; k++) this.addCut(this.clipLine(cw, ch, 1, k, width, height), verticals, horizontals);
+        for (let k = 1 - rows; k < cols; k++) this.addCut(this.clipLine(cw, ch, -1, k, width, height), verticals, horizontals);
+
+        // Centri in (a * cw / 2, b * ch / 2) con a + b dispari
+        const cells: LayoutCell[] = [];
+        for (let b = 0; b <= 2 * rows; b++) {
+            for (let a = 0; a <= 2 * cols; a++) {
+                if ((a + b) % 2 === 0) continue;
+                const cx = a * cw / 2, cy = b * ch / 2;
+                const cell = this.cell(cx - cw / 2, cy - ch / 2, cx + cw / 2, cy + ch / 2, width, height);
+                cell.seed = { x: Math.min(Math.max(cx, cw / 4), width - cw / 4), y: Math.min(Math.max(cy, ch / 4), height - ch / 4) };
+                cells.push(cell);
+            }
+        }
+        return { kind: 'diagonal', verticals, horizontals, cells, cellWidth: cw, cellHeight: ch };
+    }
+
+    // Retta x/cw + sign * y/ch = k ritagliata sul modello (null se lo tocca solo in un punto)
+    private static clipLine(cw: number, ch: number, sign: 1 | -1, k: number, width: number, height: number): Point2D[] | null {
+        const candidates: Point2D[] = [
+            { x: k * cw, y: 0 },
+            { x: (k - sign * height / ch) * cw, y: height },
+            { x: 0, y: sign * k * ch },
+            { x: width, y: sign * (k - width / cw) * ch }
+        ].filter(p => p.x >= -1e-9 && p.x <= width + 1e-9 && p.y >= -1e-9 && p.y <= height + 1e-9);
+        candidates.sort((p, q) => p.y - q.y || p.x - q.x);
+        const a = candidates[0], b = candidates[candidates.length - 1];
+        if (!a || Math.hypot(b.x - a.x, b.y - a.y) < 1e-9) return null;
+        return [a, b];
+    }
+
+    // Un taglio inclinato va dove il seam può seguirlo: al massimo un pixel di scarto per passo lungo l'asse principale
+    private static addCut(line: Point2D[] | null, verticals: Point2D[][], horizontals: Point2D[][]) {
+        if (!line) return;
+        const [a, b] = line;
+        if (Math.abs(b.x - a.x) <= Math.abs(b.y - a.y)) verticals.push(line);
+        else horizontals.push(a.x <= b.x ? line : [b, a]);
+    }
+
+    // Giunti phase + k * step dentro (0, size), spostati di shift: quelli che escono dal modello spariscono
+    private static joints(phase: number, step: number, shift: number, size: number): number[] {
+        const eps = 1e-9 * Math.max(size, 1);
+        const xs: number[] = [];
+        for (let x = phase || step; x < size - eps; x += step) {
+            if (x + shift > eps && x + shift < size - eps) xs.push(x + shift);
+        }
+        return xs;
+    }
+
+    private static cell(x0: number, y0: number, x1: number, y1: number, width: number, height: number): LayoutCell {
+        const c = {
+            x0: Math.max(0, x0), y0: Math.max(0, y0),
+            x1: Math.min(width, x1), y1: Math.min(height, y1)
+        };
+        return { seed: { x: (c.x0 + c.x1) / 2, y: (c.y0 + c.y1) / 2 }, ...c };
+    }
+}
@@ -0,0 +1,148 @@
+import { Point2D } from '../utils/GeometryUtils';
+import { HeightMapData } from './HeightMapper';
+import { LAYOUT_KINDS, Layout, LayoutGenerator, LayoutKind } from './LayoutGenerator';
+import { PlanarArrangement } from './PlanarArrangement';
+
+export type LayoutMode = LayoutKind | 'auto';
+
+export const LAYOUT_MODES: LayoutMode[] = ['auto', ...LAYOUT_KINDS];
+
+export type LayoutPlannerOptions = {
+    bedWidth: number;
+    bedHeight: number;
+    resolution: number;
+    kinds?: LayoutKind[];
+    // Layout calcolati sul piatto girato di 90°: i tile vanno stampati ruotati
+    allowRotation?: boolean;
+    // Riserve per lato (mm) da provare: spazio lasciato al seam per allontanarsi dal taglio dritto
+    reserves?: number[];
+};
+
+export type LayoutCandidate = {
+    kind: LayoutKind;
+    rotated: boolean;
+    reserve: number;
+    offset: Point2D;
+    layout: Layout;
+    tiles: number;
+    // Somma dell'energia del SeamFinder lungo i tagli dritti: stima, il seam vero può solo scendere
+    seamCost: number;
+    fits: boolean;
+};
+
+export type LayoutPlan = { best: LayoutCandidate, candidates: LayoutCandidate[] };
+
+// Righe del report oltre la scelta
+const REPORT_ROWS = 8;
+
+/**
+ * Sceglie il layout dell'auto-tiling confrontando schema, orientamento, riserva e spostamento del reticolo.
+ * Ogni candidato viene chiuso con PlanarArrangement e ogni faccia verificata sul piatto (ridotto della riserva);
+ * tra quelli che entrano vince chi ha meno tile, poi la riserva più ampia (a parità di tile è gratis), poi il
+ * costo dei tagli sulla HeightMap.
+ */
+export class LayoutPlanner {
+
+    static plan(mapData: HeightMapData, options: LayoutPlannerOptions): LayoutPlan {
+        const res = options.resolution;
+        const width = mapData.width * res, height = mapData.height * res;
+        const reserves = options.reserves ?? [0];
+        // Con il piatto quadrato il layout ruotato è identico
+        const orientations = options.allowRotation && options.bedWidth !== options.bedHeight ? [false, true] : [false];
+
+        const candidates: LayoutCandidate[] = [];
+        for (const kind of options.kinds ?? LAYOUT_KINDS) {
+            for (const rotated of orientations) {
+                for (const reserve of reserves) {
+                    const bed = rotated ? { w: options.bedHeight, h: options.bedWidth } : { w: options.bedWidth, h: options.bedHeight };
+                    const bedW = bed.w - 2 * reserve, bedH = bed.h - 2 * reserve;
+                    if (!(bedW > 0 && bedH > 0)) continue;
+                    for (const offset of this.offsets(kind, width, height, bedW, bedH)) {
+                        const layout = LayoutGenerator.generate(kind, width, height, bed.w, bed.h, offset, reserve);
+                        const { faces } = PlanarArrangement.build([...layout.verticals, ...layout.horizontals], width, height);
+                        const fits = faces.every(f => {
+                            const xs = f.outer.map(p => p.x), ys = f.outer.map(p => p.y);
+                            return Math.max(...xs) - Math.min(...xs) <= bedW + 1e-6 && Math.max(...ys) - Math.min(...ys) <= bedH + 1e-6;
+                        });
+                        candidates.push({
+                            kind, rotated, reserve, offset, layout, fits,
+                            tiles: faces.length,
+                            seamCost: this.seamCost(layout, mapData, res)
+                        });
+                    }
+                }
+            }
+        }
+        candidates.sort((a, b) =>
+            Number(b.fits) - Number(a.fits) || a.tiles - b.tiles || b.reserve - a.reserve || a.seamCost - b.seamCost
+        );
+        return { best: candidates[0], candidates };
+    }
+
+    /** Report leggibile: la scelta e le migliori alternative, una per riga. */
+    static formatReport(plan: LayoutPlan, options: LayoutPlannerOptions): string {
+        const { best, candidates } = plan;
+        const lines = [
+            `📐 Layout planner: ${candidates.length} alternative valutate per il piatto ${options.bedWidth}x${options.bedHeight}mm`,
+            `     ${'schema'.padEnd(10)}${'piatto'.padEnd(9)}${'riserva'.padEnd(9)}${'offset (mm)'.padEnd(14)}${'tile'.padEnd(6)}costo seam`
+        ];
+        for (const c of candidates.slice(0, REPORT_ROWS + 1)) {
+            const offset = `${this.signed(c.offset.x)}/${this.signed(c.offset.y)}`;
+            const tiles = c.fits ? String(c.tiles) : `${c.tiles}!`;
+            lines.push(
+                `   ${c === best ? '➜' : ' '} ${c.kind.padEnd(10)}${(c.rotated ? 'ruotato' : 'dritto').padEnd(9)}` +
+                `${(c.reserve.toFixed(1) + 'mm').padEnd(9)}${offset.padEnd(14)}${tiles.padEnd(6)}${Math.round(c.seamCost)}`
+            );
+        }
+        if (candidates.length > REPORT_ROWS + 1) lines.push(`     ... altre ${candidates.length - REPORT_ROWS - 1} alternative`);
+        if (candidates.some(c => !c.fits)) lines.push(`     (!) alcuni tile non entrano nel piatto`);
+        return lines.join('\n');
+    }
+
+    // Spostamenti del reticolo entro metà del margine tra cella e piatto, su ogni asse con più di una cella
+    private static offsets(kind: LayoutKind, width: number, height: number, bedW: number, bedH: number): Point2D[] {
+        if (kind !== 'grid' && kind !== 'brick') return [{ x: 0, y: 0 }];
+        const shifts = (size: number, bed: number) => {
+            const n = Math.ceil(size / bed);
+            const slack = bed - size / n;
+            return n > 1 && slack > 1e-6 ? [0, -slack / 2, slack / 2] : [0];
+        };
+        const result: Point2D[] = [];
+        for (const y of shifts(height, bedH)) {
+            for (const x of shifts(width, bedW)) result.push({ x, y });
+        }
+        return result;
+    }
+
+    // Energia del SeamFinder (100 / (gradiente + 1)) campionata ogni pixel lungo i tagli, gradiente attraverso il taglio
+    private static seamCost(layout: Layout, mapData: HeightMapData, res: number): number {
+        const { grid, width, height } = mapData;
+        const at = (x: number, y: number) => {
+            const px = Math.min(width - 1, Math.max(0, Math.round(x)));
+            const py = Math.min(height - 1, Math.max(0, Math.round(y)));
+            return grid[py * width + px];
+        };
+        let cost = 0;
+        for (const line of [...layout.verticals, ...layout.horizontals]) {
+            for (let i = 0; i + 1 < line.length; i++) {
+                const ax = line[i].x / res, ay = line[i].y / res;
+                const dx = line[i + 1].x / res - ax, dy = line[i + 1].y / res - ay;
+                const length = Math.hypot(dx, dy);
+                if (length < 1e-9) continue;
+                // Normale unitaria: un pixel più in là attraverso il taglio
+                const nx = -dy / length, ny = dx / length;
+                const steps = Math.ceil(length);
+                for (let s = 0; s < steps; s++) {
+                    const x = ax + dx * (s + 0.5) / steps, y = ay + dy * (s + 0.5) / steps;
+                    const gradient = Math.abs(at(x + nx, y + ny) - at(x, y));
+                    cost += 100 / (gradient + 1);
+                }
+            }
+        }
+        return cost;
+    }
+
+    private static signed(v: number): string {
+        return `${v >= 0 ? '+' : ''}${v.toFixed(2)}`;
+    }
+}
@@ -0,0 +1,164 @@
+import { Point2D } from '../utils/GeometryUtils';
+
+/**
+ * Rasterizzazione delle guide senza dipendenze native.
+ * Le maschere sono `Uint8Array` piatte (riga per riga, `y * width + x`, 1 = dentro);
+ * un pixel è dentro se lo è il suo centro (x + 0.5, y + 0.5).
+ */
+export class MaskRasterizer {
+
+    /**
+     * Tratto di spessore `strokeWidth` (px) lungo le spezzate, con estremi e giunzioni arrotondati:
+     * pixel a distanza <= strokeWidth / 2 da almeno un segmento.
+     */
+    static stroke(polylines: Point2D[][], strokeWidth: number, width: number, height: number, out?: Uint8Array): Uint8Array {
+        const mask = out ?? new Uint8Array(width * height);
+        const r = strokeWidth / 2;
+        const r2 = r * r;
+
+        for (const line of polylines) {
+            if (line.length === 1) this.segment(mask, width, height, line[0], line[0], r, r2);
+            for (let i = 0; i + 1 < line.length; i++) this.segment(mask, width, height, line[i], line[i + 1], r, r2);
+        }
+        return mask;
+    }
+
+    /**
+     * Distanza (px) di ogni pixel dalla spezzata più vicina, calcolata solo entro `maxDistance`:
+     * oltre vale Infinity. Serve per i corridoi morbidi, dove il costo cresce con la distanza dalla guida.
+     */
+    static distance(polylines: Point2D[][], maxDistance: number, width: number, height: number): Float32Array {
+        const field = new Float32Array(width * height).fill(Infinity);
+        for (const line of polylines) {
+            if (line.length === 1) this.segmentDistance(field, width, height, line[0], line[0], maxDistance);
+            for (let i = 0; i + 1 < line.length; i++) this.segmentDistance(field, width, height, line[i], line[i + 1], maxDistance);
+        }
+        return field;
+    }
+
+    /**
+     * Interno dei poligoni (chiusi implicitamente) con la regola nonzero, scansione per righe.
+     */
+    static fill(polygons: Point2D[][], width: number, height: number, out?: Uint8Array): Uint8Array {
+        const mask = out ?? new Uint8Array(width * height);
+
+        // Lati non orizzontali con il verso (winding) e l'intervallo di Y coperto
+        type Edge = { x0: number, y0: number, dxdy: number, yMin: number, yMax: number, dir: number };
+        const edges: Edge[] = [];
+        let minY = Infinity, maxY = -Infinity;
+        for (const poly of polygons) {
+            for (let i = 0; i < poly.length; i++) {
+                const a = poly[i], b = poly[(i + 1) % poly.length];
+                if (a.y === b.y) continue;
+                edges.push({
+                    x0: a.x, y0: a.y, dxdy: (b.x - a.x) / (b.y - a.y),
+                    yMin: Math.min(a.y, b.y), yMax: Math.max(a.y, b.y), dir: b.y > a.y ? 1 : -1
+                });
+                minY = Math.min(minY, a.y, b.y);
+                maxY = Math.max(maxY, a.y, b.y);
+            }
+        }
+        if (edges.length === 0) return mask;
+
+        const rowStart = Math.max(0, Math.floor(minY));
+        const rowEnd = Math.min(height - 1, Math.ceil(maxY));
+        const crossings: { x: number, dir: number }[] = [];
+        for (let y = rowStart; y <= rowEnd; y++) {
+            const cy = y + 0.5;
+            crossings.length = 0;
+            // Intervallo semiaperto [yMin, yMax): i vertici condivisi contano una volta
+            for (const e of edges) {
+                if (cy >= e.yMin && cy < e.yMax) crossings.push({ x: e.x0 + (cy - e.y0) * e.dxdy, dir: e.dir });
+            }
+            if (crossings.length < 2) continue;
+            crossings.sort((p, q) => p.x - q.x);
+
+            let winding = 0;
+            for (let k = 0; k + 1 < crossings.length; k++) {
+                winding += crossings[k].dir;
+                if (winding === 0) continue;
+                // Pixel con il centro tra i due attraversamenti
+                const from = Math.max(0, Math.ceil(crossings[k].x - 0.5));
+                const to = Math.min(width - 1, Math.ceil(crossings[k + 1].x - 0.5) - 1);
+                for (let x = from; x <= to; x++) mask[y * width + x] = 1;
+            }
+        }
+        return mask;
+    }
+
+    /**
+     * Prima e ultima riga con almeno un pixel dentro la maschera (o a distanza finita, per un campo di distanze),
+     * null se è vuota. È l'estensione verticale di una guida parziale.
+     */
+    static rowRange(mask: Uint8Array | Float32Array, width: number, height: number): { start: number, end: number } | null {
+        const inside = mask instanceof Float32Array ? (v: number) => v !== Infinity : (v: number) => v !== 0;
+        let start = -1, end = -1;
+        for (let y = 0; y < height; y++) {
+            const row = y * width;
+            for (let x = 0; x < width; x++) {
+                if (!inside(mask[row + x])) continue;
+                if (start < 0) start = y;
+                end = y;
+                break;
+            }
+        }
+        return start < 0 ? null : { start, end };
+    }
+
+    /** Trasposta di una maschera (o di un campo di distanze) width x height: diventa height x width. */
+    static transpose<T extends Uint8Array | Float32Array>(mask: T, width: number, height: number): T {
+        const result = (mask instanceof Float32Array ? new Float32Array(mask.length) : new Uint8Array(mask.length)) as T;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) result[x * height + y] = mask[y * width + x];
+        }
+        return result;
+    }
+
+    // Capsula attorno al segmento ab: solo il rettangolo che la contiene viene visitato
+    private static segment(mask: Uint8Array, width: number, height: number, a: Point2D, b: Point2D, r: number, r2: number) {
+        const x0 = Math.max(0, Math.floor(Math.min(a.x, b.x) - r));
+        const x1 = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x) + r));
+        const y0 = Math.max(0, Math.floor(Math.min(a.y, b.y) - r));
+        const y1 = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y) + r));
+        const dx = b.x - a.x, dy = b.y - a.y;
+        const len2 = dx * dx + dy * dy;
+
+        for (let y = y0; y <= y1; y++) {
+            const py = y + 0.5;
+            const row = y * width;
+            for (let x = x0; x <= x1; x++) {
+                if (mask[row + x]) continue;
+                const px = x + 0.5;
+                let t = len2 > 0 ? ((px - a.x) * dx + (py - a.y) * dy) / len2 : 0;
+                t = t < 0 ? 0 : t > 1 ? 1 : t;
+                const ex = a.x + t * dx - px, ey = a.y + t * dy - py;
+                if (ex * ex + ey * ey <= r2) mask[row + x] = 1;
+            }
+        }
+    }
+
+    private static segmentDistance(field: Float32Array, width: number, height: number, a: Point2D, b: Point2D, maxDistance: number) {
+        const x0 = Math.max(0, Math.floor(Math.min(a.x, b.x) - maxDistance));
+        const x1 = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x) + maxDistance));
+        const y0 = Math.max(0, Math.floor(Math.min(a.y, b.y) - maxDistance));
+        const y1 = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y) + maxDistance));
+        const dx = b.x - a.x, dy = b.y - a.y;
+        const len2 = dx * dx + dy * dy;
+        const max2 = maxDistance * maxDistance;
+
+        for (let y = y0; y <= y1; y++) {
+            const py = y + 0.5;
+            const row = y * width;
+            for (let x = x0; x <= x1; x++) {
+                const px = x + 0.5;
+                let t = len2 > 0 ? ((px - a.x) * dx + (py - a.y) * dy) / len2 : 0;
+                t = t < 0 ? 0 : t > 1 ? 1 : t;
+                const ex = a.x + t * dx - px, ey = a.y + t * dy - py;
+                const d2 = ex * ex + ey * ey;
+                if (d2 > max2) continue;
+                const d = Math.sqrt(d2);
+                if (d < field[row + x]) field[row + x] = d;
+            }
+        }
+    }
+}
@@ -0,0 +1,381 @@
+import { Point2D } from '../utils/GeometryUtils';
+
+/**
+ * Faccia dell'arrangiamento: contorno esterno e contorni delle isole interne (buchi),
+ * `area` è già al netto dei buchi.
+ */
+export type ArrangementFace = { outer: Point2D[], holes: Point2D[][], area: number };
+
+export type ArrangementOptions = {
+    // Un estremo libero entro questa distanza da un altro taglio (o dal bordo) viene agganciato
+    snapTolerance?: number;
+    // Facce con area inferiore vengono unite a una vicina invece di diventare tile (default: residui numerici)
+    mergeArea?: number;
+};
+
+export type ArrangementResult = {
+    faces: ArrangementFace[];
+    // Indici (in `cuts`) dei tagli rimossi per intero perché non chiudono nessuna faccia (finiscono nel vuoto);
+    // un taglio che sborda oltre quello su cui si innesta perde solo il pezzo in più e non compare qui
+    danglingCuts: number[];
+};
+
+// Giri massimi di unione: in ogni giro una faccia partecipa a una sola unione
+const MAX_MERGE_ROUNDS = 20;
+
+type TracedFace = { loop: Point2D[], ids: number[], area: number, start: number };
+type TracedFaces = { bounded: TracedFace[], outers: TracedFace[], faceOf: Map<string, number> };
+
+// `cut`: indice del taglio di provenienza, -1 per il bordo
+type Segment = { a: Point2D, b: Point2D, cut: number, minX: number, maxX: number, minY: number, maxY: number, splits: number[] };
+
+/**
+ * Arrangiamento planare di tagli arbitrari dentro il rettangolo [0, width] x [0, height]:
+ * i tagli (spezzate, anche parziali, diagonali o curve) vengono spezzati in ogni incrocio,
+ * i tratti che non chiudono nulla vengono potati e le facce del grafo risultante sono i tile.
+ * Un taglio che finisce su un altro (giunzione a T) lo divide solo da un lato: è così che
+ * nascono i layout sfalsati (mattoni) impossibili con la sola griglia.
+ */
+export class PlanarArrangement {
+
+    static build(cuts: Point2D[][], width: number, height: number, options: ArrangementOptions = {}): ArrangementResult {
+        const eps = 1e-6 * Math.max(width, height, 1);
+        const snap = options.snapTolerance ?? 0;
+        const mergeArea = options.mergeArea ?? 1e-6 * width * height;
+
+        // 1. Tagli dentro il rettangolo, senza punti ripetuti (stessi indici di `cuts`: quelli degeneri restano senza segmenti)
+        const lines = cuts
+            .map(c => this.dedupe(c.map(p => ({ x: Math.min(Math.max(p.x, 0), width), y: Math.min(Math.max(p.y, 0), height) })), eps));
+        const frame = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }, { x: 0, y: 0 }];
+        if (snap > 0) this.snapEnds(lines, frame, snap, eps);
+
+        // 2. Segmenti (bordo compreso) spezzati in ogni intersezione
+        const segments: Segment[] = [];
+        [frame, ...lines].forEach((line, k) => {
+            for (let i = 0; i + 1 < line.length; i++) segments.push(this.segment(line[i], line[i + 1], k - 1));
+        });
+        this.splitIntersections(segments, eps);
+
+        // 3. Grafo: vertici fusi entro eps, archi senza duplicati
+        const vertices: Point2D[] = [];
+        const grid = new Map<string, number[]>();
+        const vertexId = (p: Point2D): number => {
+            const cx = Math.floor(p.x / eps), cy = Math.floor(p.y / eps);
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (const id of grid.get(`${cx + dx},${cy + dy}`) ?? []) {
+                        if (Math.abs(vertices[id].x - p.x) <= eps && Math.abs(vertices[id].y - p.y) <= eps) return id;
+                    }
+                }
+            }
+            vertices.push(p);
+            const key = `${cx},${cy}`;
+            if (!grid.has(key)) grid.set(key, []);
+            grid.get(key)!.push(vertices.length - 1);
+            return vertices.length - 1;
+        };
+
+        const adjacency: Set<number>[] = [];
+        // Archi di ogni taglio, per riconoscere quelli potati per intero
+        const cutEdges: [number, number][][] = lines.map(() => []);
+        const link = (u: number, v: number, cut: number) => {
+            if (u === v) return;
+            if (cut >= 0) cutEdges[cut].push([u, v]);
+            while (adjacency.length <= Math.max(u, v)) adjacency.push(new Set());
+            adjacency[u].add(v);
+            adjacency[v].add(u);
+        };
+        for (const s of segments) {
+            const ts = [...new Set(s.splits)].sort((p, q) => p - q);
+            let prev = vertexId(s.a);
+            for (const t of ts) {
+                if (t <= 0) continue;
+                const id = t >= 1 ? vertexId(s.b) : vertexId({ x: s.a.x + t * (s.b.x - s.a.x), y: s.a.y + t * (s.b.y - s.a.y) });
+                link(prev, id, s.cut);
+                prev = id;
+            }
+            link(prev, vertexId(s.b), s.cut);
+        }
+        while (adjacency.length < vertices.length) adjacency.push(new Set());
+
+        // 4. Potatura dei rami morti: un vertice con un solo arco non può stare sul contorno di una faccia
+        this.prune(adjacency);
+        const danglingCuts = cutEdges.map((edges, k) => edges.some(([u, v]) => adjacency[u].has(v)) ? -1 : k).filter(k => k >= 0);
+
+        // 5. Facce; quelle sotto mergeArea (schegge dove due seam si incrociano vicino al bordo o a un altro taglio)
+        //    vengono unite alla vicina con cui condividono il confine più lungo, togliendo gli archi in comune
+        let traced = this.traceFaces(vertices, adjacency);
+        for (let round = 0; round < MAX_MERGE_ROUNDS; round++) {
+            if (!this.mergeSmallFaces(traced, vertices, adjacency, mergeArea)) break;
+            this.prune(adjacency);
+            traced = this.traceFaces(vertices, adjacency);
+        }
+        const { bounded, outers } = traced;
+        const component = this.components(adjacency);
+
+        // 6. Isole (tagli chiusi che non toccano il resto): il loro contorno esterno è un buco della faccia che le contiene
+        const faces: (ArrangementFace & { component: number })[] = bounded.map(f => ({ outer: f.loop, holes: [], area: f.area, component: component[f.start] }));
+        const frameComponent = component[vertexId(frame[0])];
+        for (const o of outers) {
+            if (component[o.start] === frameComponent) continue;
+            const probe = o.loop[0];
+            let host: (typeof faces)[number] | null = null;
+            for (const f of faces) {
+                if (f.component === component[o.start] || !this.contains(f.outer, probe)) continue;
+                if (!host || f.area < host.area) host = f;
+            }
+            if (!host) continue;
+            host.holes.push(o.loop);
+            host.area += this.signedArea(o.loop);
+        }
+
+        return {
+            faces: faces.map(({ outer, holes, area }) => ({ outer, holes, area })),
+            danglingCuts
+        };
+    }
+
+    // Rimuove iterativamente gli archi con un estremo di grado 1
+    private static prune(adjacency: Set<number>[]) {
+        const stack = adjacency.map((a, i) => a.size === 1 ? i : -1).filter(i => i >= 0);
+        while (stack.length > 0) {
+            const u = stack.pop()!;
+            if (adjacency[u].size !== 1) continue;
+            const v = adjacency[u].values().next().value as number;
+            adjacency[u].delete(v);
+            adjacency[v].delete(u);
+            if (adjacency[v].size === 1) stack.push(v);
+        }
+    }
+
+    /**
+     * Cicli delle facce: da u->v si prosegue con l'arco successivo in senso orario attorno a v.
+     * Con Y verso il basso le facce limitate hanno area positiva, i contorni esterni negativa.
+     * `faceOf` dà la faccia limitata (indice in `bounded`) percorsa da ogni semiarco "u,v", -1 se è un contorno esterno.
+     */
+    private static traceFaces(vertices: Point2D[], adjacency: Set<number>[]): TracedFaces {
+        const sorted = adjacency.map((a, u) => [...a].sort((p, q) => this.angle(vertices[u], vertices[p]) - this.angle(vertices[u], vertices[q])));
+        const faceOf = new Map<string, number>();
+        const bounded: TracedFace[] = [];
+        const outers: TracedFace[] = [];
+        for (let u = 0; u < sorted.length; u++) {
+            for (const v0 of sorted[u]) {
+                if (faceOf.has(`${u},${v0}`)) continue;
+                const ids: number[] = [];
+                let a = u, b = v0;
+                while (!faceOf.has(`${a},${b}`)) {
+                    faceOf.set(`${a},${b}`, -2);
+                    ids.push(a);
+                    const around = sorted[b];
+                    const next = around[(around.indexOf(a) - 1 + around.length) % around.length];
+                    a = b;
+                    b = next;
+                }
+                const loop = ids.map(id => vertices[id]);
+                const face = { loop, ids, area: this.signedArea(loop), start: u };
+                const index = face.area > 0 ? bounded.push(face) - 1 : (outers.push(face), -1);
+                for (let k = 0; k < ids.length; k++) faceOf.set(`${ids[k]},${ids[(k + 1) % ids.length]}`, index);
+            }
+        }
+        return { bounded, outers, faceOf };
+    }
+
+    // Unisce ogni faccia sotto mergeArea alla vicina con il confine comune più lungo; false se non c'era nulla da unire
+    private static mergeSmallFaces(traced: TracedFaces, vertices: Point2D[], adjacency: Set<number>[], mergeArea: number): boolean {
+        const touched = new Set<number>();
+        let merged = false;
+        const small = traced.bounded.map((f, i) => i).filter(i => traced.bounded[i].area < mergeArea)
+            .sort((p, q) => traced.bounded[p].area - traced.bounded[q].area);
+        for (const f of small) {
+            if (touched.has(f)) continue;
+            const ids = traced.bounded[f].ids;
+            const shared = new Map<number, number>();
+            for (let k = 0; k < ids.length; k++) {
+                const a = ids[k], b = ids[(k + 1) % ids.length];
+                const g = traced.faceOf.get(`${b},${a}`) ?? -1;
+                if (g < 0 || g === f) continue;
+                shared.set(g, (shared.get(g) ?? 0) + Math.hypot(vertices[b].x - vertices[a].x, vertices[b].y - vertices[a].y));
+            }
+            let best = -1;
+            for (const [g, length] of shared) {
+                if (!touched.has(g) && (best < 0 || length > shared.get(best)!)) best = g;
+            }
+            if (best < 0) continue;
+            for (let k = 0; k < ids.length; k++) {
+                const a = ids[k], b = ids[(k + 1) % ids.length];
+                if (traced.faceOf.get(`${b},${a}`) !== best) continue;
+                adjacency[a].delete(b);
+                adjacency[b].delete(a);
+            }
+            touched.add(f);
+            touched.add(best);
+            merged = true;
+        }
+        return merged;
+    }
+
+    /**
+     * Aggancio degli estremi liberi: se un taglio finisce a meno di `tolerance` da un altro taglio
+     * (o dal bordo) senza toccarlo, viene prolungato fino al punto più vicino.
+     * Compensa i seam che si fermano a un pixel dal taglio su cui dovrebbero innestarsi.
+     * Un estremo che ha già attraversato il taglio più vicino non viene agganciato: è il pezzo che sborda
+     * oltre la giunzione, e riportarlo indietro chiuderebbe una scheggia invece di lasciarlo alla potatura.
+     */
+    private static snapEnds(lines: Point2D[][], frame: Point2D[], tolerance: number, eps: number) {
+        for (let i = 0; i < lines.length; i++) {
+            if (lines[i].length < 2) continue;
+            for (const end of [0, 1]) {
+                const line = lines[i];
+                const p = end === 0 ? line[0] : line[line.length - 1];
+                let best: Point2D | null = null;
+                let bestLine = -1;
+                let bestDist = tolerance;
+                for (let j = -1; j < lines.length; j++) {
+                    if (j === i) continue;
+                    const other = j < 0 ? frame : lines[j];
+                    for (let k = 0; k + 1 < other.length; k++) {
+                        const q = this.closestPoint(p, other[k], other[k + 1]);
+                        const d = Math.hypot(q.x - p.x, q.y - p.y);
+                        if (d <= eps) { best = null; bestDist = -1; break; }
+                        if (d < bestDist) { best = q; bestLine = j; bestDist = d; }
+                    }
+                    if (bestDist < 0) break;
+                }
+                if (!best || (bestLine >= 0 && this.crosses(line, lines[bestLine], eps))) continue;
+                if (end === 0) line.unshift(best);
+                else line.push(best);
+            }
+        }
+    }
+
+    // Le due spezzate si incrociano (o si toccano) in almeno un punto?
+    private static crosses(a: Point2D[], b: Point2D[], eps: number): boolean {
+        for (let i = 0; i + 1 < a.length; i++) {
+            const s = this.segment(a[i], a[i + 1], -1);
+            for (let k = 0; k + 1 < b.length; k++) {
+                const r = this.segment(b[k], b[k + 1], -1);
+                if (r.minX > s.maxX + eps || r.maxX < s.minX - eps || r.minY > s.maxY + eps || r.maxY < s.minY - eps) continue;
+                this.intersect(s, r, eps);
+                if (s.splits.length > 0) return true;
+            }
+        }
+        return false;
+    }
+
+    // Intersezioni a coppie con sweep sull'asse X (i seam sono fitti ma ogni segmento è corto)
+    private static splitIntersections(segments: Segment[], eps: number) {
+        const order = segments.map((_, i) => i).sort((p, q) => segments[p].minX - segments[q].minX);
+        for (let oi = 0; oi < order.length; oi++) {
+            const s = segments[order[oi]];
+            for (let oj = oi + 1; oj < order.length; oj++) {
+                const r = segments[order[oj]];
+                if (r.minX > s.maxX + eps) break;
+                if (r.minY > s.maxY + eps || r.maxY < s.minY - eps) continue;
+                this.intersect(s, r, eps);
+            }
+        }
+    }
+
+    private static intersect(s: Segment, r: Segment, eps: number) {
+        const dx = s.b.x - s.a.x, dy = s.b.y - s.a.y;
+        const ex = r.b.x - r.a.x, ey = r.b.y - r.a.y;
+        const denom = dx * ey - dy * ex;
+        const lenS = Math.hypot(dx, dy), lenR = Math.hypot(ex, ey);
+        if (lenS === 0 || lenR === 0) return;
+
+        if (Math.abs(denom) <= eps * Math.max(lenS, lenR)) {
+            // Paralleli: se collineari, ognuno viene spezzato negli estremi dell'altro che ci cadono sopra
+            const offset = Math.abs((r.a.x - s.a.x) * dy - (r.a.y - s.a.y) * dx) / lenS;
+            if (offset > eps) return;
+            for (const p of [r.a, r.b]) this.addSplit(s, p, eps);
+            for (const p of [s.a, s.b]) this.addSplit(r, p, eps);
+            return;
+        }
+
+        const wx = r.a.x - s.a.x, wy = r.a.y - s.a.y;
+        const t = (wx * ey - wy * ex) / denom;
+        const u = (wx * dy - wy * dx) / denom;
+        const tolS = eps / lenS, tolR = eps / lenR;
+        if (t < -tolS || t > 1 + tolS || u < -tolR || u > 1 + tolR) return;
+        s.splits.push(Math.min(Math.max(t, 0), 1));
+        r.splits.push(Math.min(Math.max(u, 0), 1));
+    }
+
+    // Spezza `s` nel punto `p` se ci cade sopra
+    private static addSplit(s: Segment, p: Point2D, eps: number) {
+        const dx = s.b.x - s.a.x, dy = s.b.y - s.a.y;
+        const t = ((p.x - s.a.x) * dx + (p.y - s.a.y) * dy) / (dx * dx + dy * dy);
+        const tol = eps / Math.hypot(dx, dy);
+        if (t >= -tol && t <= 1 + tol) s.splits.push(Math.min(Math.max(t, 0), 1));
+    }
+
+    private static segment(a: Point2D, b: Point2D, cut: number): Segment {
+        return {
+            a, b, cut,
+            minX: Math.min(a.x, b.x), maxX: Math.max(a.x, b.x),
+            minY: Math.min(a.y, b.y), maxY: Math.max(a.y, b.y),
+            splits: []
+        };
+    }
+
+    private static closestPoint(p: Point2D, a: Point2D, b: Point2D): Point2D {
+        const dx = b.x - a.x, dy = b.y - a.y;
+        const len2 = dx * dx + dy * dy;
+        let t = len2 > 0 ? ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2 : 0;
+        t = Math.min(Math.max(t, 0), 1);
+        return { x: a.x + t * dx, y: a.y + t * dy };
+    }
+
+    private static dedupe(line: Point2D[], eps: number): Point2D[] {
+        const result: Point2D[] = [];
+        for (const p of line) {
+            const last = result[result.length - 1];
+            if (!last || Math.abs(last.x - p.x) > eps || Math.abs(last.y - p.y) > eps) result.push(p);
+        }
+        return result;
+    }
+
+    private static angle(from: Point2D, to: Point2D): number {
+        return Math.atan2(to.y - from.y, to.x - from.x);
+    }
+
+    // Componenti connesse del grafo (un'etichetta per vertice)
+    private static components(adjacency: Set<number>[]): Int32Array {
+        const component = new Int32Array(adjacency.length).fill(-1);
+        let next = 0;
+        for (let start = 0; start < adjacency.length; start++) {
+            if (component[start] >= 0) continue;
+            const stack = [start];
+            component[start] = next;
+            while (stack.length > 0) {
+                const u = stack.pop()!;
+                for (const v of adjacency[u]) {
+                    if (component[v] >= 0) continue;
+                    component[v] = next;
+                    stack.push(v);
+                }
+            }
+            next++;
+        }
+        return component;
+    }
+
+    private static signedArea(loop: Point2D[]): number {
+        let area = 0;
+        for (let i = 0; i < loop.length; i++) {
+            const p = loop[i], q = loop[(i + 1) % loop.length];
+            area += p.x * q.y - q.x * p.y;
+        }
+        return area / 2;
+    }
+
+    // Punto in poligono (pari/dispari)
+    private static contains(loop: Point2D[], p: Point2D): boolean {
+        let inside = false;
+        for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+            const a = loop[i], b = loop[j];
+            if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+        }
+        return inside;
+    }
+}
@@ -0,0 +1,310 @@
+import { Point2D } from '../utils/GeometryUtils';
+
+/**
+ * Sottopercorso appiattito: sequenza di punti (unità utente SVG), `closed` se terminato con Z.
+ */
+export type FlatSubpath = { points: Point2D[], closed: boolean };
+
+// Scarto massimo di default tra curva e spezzata (unità utente)
+export const DEFAULT_CURVE_TOLERANCE = 0.25;
+
+// Profondità massima della suddivisione delle Bézier (2^12 segmenti per curva)
+const MAX_DEPTH = 12;
+
+/**
+ * Parser completo del path data SVG (SVG 1.1, cap. 8.3): comandi assoluti e relativi
+ * M L H V C S Q T A Z. Curve e archi vengono appiattiti in segmenti con scarto massimo `tolerance`.
+ */
+export class SvgPathParser {
+
+    static parse(d: string, tolerance: number = DEFAULT_CURVE_TOLERANCE): FlatSubpath[] {
+        const tol = tolerance > 0 ? tolerance : DEFAULT_CURVE_TOLERANCE;
+        const tokens = new PathTokenizer(d);
+        const subpaths: FlatSubpath[] = [];
+        let current: FlatSubpath | null = null;
+
+        let x = 0, y = 0;           // Punto corrente
+        let startX = 0, startY = 0; // Inizio del sottopercorso (per Z)
+        let ctrlX = 0, ctrlY = 0;   // Ultimo punto di controllo (per S/T)
+        let prev = '';
+
+        const lineTo = (nx: number, ny: number) => {
+            if (!current) {
+                current = { points: [{ x, y }], closed: false };
+                subpaths.push(current);
+            }
+            current.points.push({ x: nx, y: ny });
+            x = nx; y = ny;
+        };
+
+        let cmd = '';
+        while (tokens.hasMore()) {
+            const next = tokens.command();
+            if (next) {
+                cmd = next;
+            } else if (!cmd) {
+                throw new Error(`Path SVG non valido: atteso un comando in "${d.slice(0, 40)}"`);
+            } else if (cmd === 'M' || cmd === 'm') {
+                // Coordinate dopo un moveto = lineto impliciti
+                cmd = cmd === 'M' ? 'L' : 'l';
+            } else if (cmd === 'Z' || cmd === 'z') {
+                throw new Error(`Path SVG non valido: numeri dopo Z in "${d.slice(0, 40)}"`);
+            }
+
+            const rel = cmd === cmd.toLowerCase();
+            const ox = rel ? x : 0, oy = rel ? y : 0;
+
+            switch (cmd.toUpperCase()) {
+                case 'M': {
+                    x = ox + tokens.number(); y = oy + tokens.number();
+                    startX = x; startY = y;
+                    current = { points: [{ x, y }], closed: false };
+                    subpaths.push(current);
+                    break;
+                }
+                case 'L':
+                    lineTo(ox + tokens.number(), oy + tokens.number());
+                    break;
+                case 'H':
+                    lineTo(ox + tokens.number(), y);
+                    break;
+                case 'V':
+                    lineTo(x, oy + tokens.number());
+                    break;
+                case 'C':
+                case 'S': {
+                    let x1: number, y1: number;
+                    if (cmd.toUpperCase() === 'C') {
+                        x1 = ox + tokens.number(); y1 = oy + tokens.number();
+                    } else {
+                        // Riflessione del controllo precedente, solo dopo un'altra cubica
+                        const smooth = 'CcSs'.includes(prev);
+                        x1 = smooth ? 2 * x - ctrlX : x; y1 = smooth ? 2 * y - ctrlY : y;
+                    }
+                    const x2 = ox + tokens.number(), y2 = oy + tokens.number();
+                    const ex = ox + tokens.number(), ey = oy + tokens.number();
+                    const pts: Point2D[] = [];
+                    this.flattenCubic(x, y, x1, y1, x2, y2, ex, ey, tol, 0, pts);
+                    for (const p of pts) lineTo(p.x, p.y);
+                    ctrlX = x2; ctrlY = y2;
+                    break;
+                }
+                case 'Q':
+                case 'T': {
+                    let qx: number, qy: number;
+                    if (cmd.toUpperCase() === 'Q') {
+                        qx = ox + tokens.number(); qy = oy + tokens.number();
+                    } else {
+                        const smooth = 'QqTt'.includes(prev);
+                        qx = smooth ? 2 * x - ctrlX : x; qy = smooth ? 2 * y - ctrlY : y;
+                    }
+                    const ex = ox + tokens.number(), ey = oy + tokens.number();
+                    // Quadratica come cubica equivalente
+                    const pts: Point2D[] = [];
+                    this.flattenCubic(
+                        x, y,
+                        x + 2 / 3 * (qx - x), y + 2 / 3 * (qy - y),
+                        ex + 2 / 3 * (qx - ex), ey + 2 / 3 * (qy - ey),
+                        ex, ey, tol, 0, pts
+                    );
+                    for (const p of pts) lineTo(p.x, p.y);
+                    ctrlX = qx; ctrlY = qy;
+                    break;
+                }
+                case 'A': {
+                    const rx = tokens.number(), ry = tokens.number(), rotation = tokens.number();
+                    const largeArc = tokens.flag(), sweep = tokens.flag();
+                    const ex = ox + tokens.number(), ey = oy + tokens.number();
+                    for (const p of this.flattenArc(x, y, rx, ry, rotation, largeArc, sweep, ex, ey, tol)) lineTo(p.x, p.y);
+                    break;
+                }
+                case 'Z': {
+                    if (current) {
+                        if (x !== startX || y !== startY) current.points.push({ x: startX, y: startY });
+                        current.closed = true;
+                    }
+                    x = startX; y = startY;
+                    // Un comando dopo Z senza M riparte dallo stesso punto
+                    current = null;
+                    break;
+                }
+                default:
+                    throw new Error(`Comando path SVG non supportato: "${cmd}"`);
+            }
+            prev = cmd;
+        }
+
+        return subpaths.filter(s => s.points.length > 0);
+    }
+
+    /** Tutti i sottopercorsi concatenati in un'unica spezzata. */
+    static flatten(d: string, tolerance: number = DEFAULT_CURVE_TOLERANCE): Point2D[] {
+        return this.parse(d, tolerance).flatMap(s => s.points);
+    }
+
+    /** Path data di una spezzata (polyline, polygon, rect). */
+    static fromPoints(points: Point2D[], closed: boolean): string {
+        if (points.length === 0) return '';
+        const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+        return closed ? d + ' Z' : d;
+    }
+
+    /** Attributo `points` di polyline/polygon. */
+    static parsePoints(value: string): Point2D[] {
+        const nums = (value.match(NUMBER_RE) || []).map(Number);
+        const points: Point2D[] = [];
+        for (let i = 0; i + 1 < nums.length; i += 2) points.push({ x: nums[i], y: nums[i + 1] });
+        return points;
+    }
+
+    /**
+     * Suddivisione ricorsiva di de Casteljau finché i punti di controllo distano dalla corda
+     * meno della tolleranza. Aggiunge a `out` i punti dopo quello iniziale.
+     */
+    private static flattenCubic(
+        x0: number, y0: number, x1: number, y1: number, x2: number, y2: number, x3: number, y3: number,
+        tol: number, depth: number, out: Point2D[]
+    ) {
+        const dx = x3 - x0, dy = y3 - y0;
+        const len = Math.hypot(dx, dy);
+        let d1: number, d2: number;
+        if (len < 1e-12) {
+            d1 = Math.hypot(x1 - x0, y1 - y0);
+            d2 = Math.hypot(x2 - x0, y2 - y0);
+        } else {
+            d1 = Math.abs((x1 - x0) * dy - (y1 - y0) * dx) / len;
+            d2 = Math.abs((x2 - x0) * dy - (y2 - y0) * dx) / len;
+        }
+        if (depth >= MAX_DEPTH || Math.max(d1, d2) <= tol) {
+            out.push({ x: x3, y: y3 });
+            return;
+        }
+
+        const ax = (x0 + x1) / 2, ay = (y0 + y1) / 2;
+        const bx = (x1 + x2) / 2, by = (y1 + y2) / 2;
+        const cx = (x2 + x3) / 2, cy = (y2 + y3) / 2;
+        const abx = (ax + bx) / 2, aby = (ay + by) / 2;
+        const bcx = (bx + cx) / 2, bcy = (by + cy) / 2;
+        const mx = (abx + bcx) / 2, my = (aby + bcy) / 2;
+        this.flattenCubic(x0, y0, ax, ay, abx, aby, mx, my, tol, depth + 1, out);
+        this.flattenCubic(mx, my, bcx, bcy, cx, cy, x3, y3, tol, depth + 1, out);
+    }
+
+    /**
+     * Arco ellittico (SVG 1.1, appendice F.6.5: da parametri agli estremi a centro e angoli).
+     * Restituisce i punti dopo quello iniziale.
+     */
+    private static flattenArc(
+        x0: number, y0: number, rx: number, ry: number, rotationDeg: number,
+        largeArc: boolean, sweep: boolean, x1: number, y1: number, tol: number
+    ): Point2D[] {
+        if (x0 === x1 && y0 === y1) return [];
+        rx = Math.abs(rx); ry = Math.abs(ry);
+        if (rx === 0 || ry === 0) return [{ x: x1, y: y1 }];
+
+        const phi = rotationDeg * Math.PI / 180;
+        const cos = Math.cos(phi), sin = Math.sin(phi);
+
+        // F.6.5.1: punto medio nel sistema dell'ellisse
+        const hx = (x0 - x1) / 2, hy = (y0 - y1) / 2;
+        const px = cos * hx + sin * hy;
+        const py = -sin * hx + cos * hy;
+
+        // F.6.6: raggi troppo piccoli vengono ingranditi
+        const lambda = (px * px) / (rx * rx) + (py * py) / (ry * ry);
+        if (lambda > 1) {
+            const s = Math.sqrt(lambda);
+            rx *= s; ry *= s;
+        }
+
+        // F.6.5.2: centro nel sistema dell'ellisse
+        const num = rx * rx * ry * ry - rx * rx * py * py - ry * ry * px * px;
+        const den = rx * rx * py * py + ry * ry * px * px;
+        let coef = Math.sqrt(Math.max(0, num / den));
+        if (largeArc === sweep) coef = -coef;
+        const cxp = coef * (rx * py / ry);
+        const cyp = coef * -(ry * px / rx);
+
+        // F.6.5.3: centro reale
+        const cx = cos * cxp - sin * cyp + (x0 + x1) / 2;
+        const cy = sin * cxp + cos * cyp + (y0 + y1) / 2;
+
+        // F.6.5.5-6: angolo iniziale ed estensione
+        const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+        const theta1 = angle(1, 0, (px - cxp) / rx, (py - cyp) / ry);
+        let delta = angle((px - cxp) / rx, (py - cyp) / ry, (-px - cxp) / rx, (-py - cyp) / ry);
+        if (!sweep && delta > 0) delta -= 2 * Math.PI;
+        else if (sweep && delta < 0) delta += 2 * Math.PI;
+
+        // Segmenti tali che la freccia (r * (1 - cos(step / 2))) non superi la tolleranza
+        const r = Math.max(rx, ry);
+        const maxStep = tol >= r ? Math.PI / 2 : 2 * Math.acos(1 - tol / r);
+        const n = Math.max(1, Math.ceil(Math.abs(delta) / maxStep));
+
+        const points: Point2D[] = [];
+        for (let i = 1; i <= n; i++) {
+            if (i === n) {
+                points.push({ x: x1, y: y1 });
+                break;
+            }
+            const t = theta1 + delta * i / n;
+            const ex = rx * Math.cos(t), ey = ry * Math.sin(t);
+            points.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+        }
+        return points;
+    }
+}
+
+const NUMBER_RE = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+const STICKY_NUMBER_RE = new RegExp(NUMBER_RE.source, 'y');
+
+/**
+ * Lettura sequenziale del path data: gestisce separatori opzionali ("10-5", ".5.5")
+ * e i flag degli archi compattati ("a1 1 0 011 1").
+ */
+class PathTokenizer {
+    private pos = 0;
+
+    constructor(private readonly d: string) { }
+
+    hasMore(): boolean {
+        this.skipSeparators();
+        return this.pos < this.d.length;
+    }
+
+    /** Comando alla posizione corrente, o null se segue un numero. */
+    command(): string | null {
+        this.skipSeparators();
+        const c = this.d[this.pos];
+        if (c && /[MmLlHhVvCcSsQqTtAaZz]/.test(c)) {
+            this.pos++;
+            return c;
+        }
+        return null;
+    }
+
+    number(): number {
+        this.skipSeparators();
+        STICKY_NUMBER_RE.lastIndex = this.pos;
+        const m = STICKY_NUMBER_RE.exec(this.d);
+        if (!m) {
+            throw new Error(`Path SVG non valido: numero atteso alla posizione ${this.pos} in "${this.d.slice(0, 40)}"`);
+        }
+        this.pos += m[0].length;
+        return parseFloat(m[0]);
+    }
+
+    flag(): boolean {
+        this.skipSeparators();
+        const c = this.d[this.pos];
+        if (c !== '0' && c !== '1') {
+            throw new Error(`Path SVG non valido: flag dell'arco atteso alla posizione ${this.pos}`);
+        }
+        this.pos++;
+        return c === '1';
+    }
+
+    private skipSeparators() {
+        while (this.pos < this.d.length && /[\s,]/.test(this.d[this.pos])) this.pos++;
+    }
+}
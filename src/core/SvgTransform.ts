@@ -0,0 +1,99 @@
+import { Point2D } from '../utils/GeometryUtils';
+
+/**
+ * Matrice affine SVG [a, b, c, d, e, f]:
+ *   x' = a*x + c*y + e
+ *   y' = b*x + d*y + f
+ */
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Millimetri per unità di misura fisica SVG/CSS
+const MM_PER_UNIT: { [unit: string]: number } = {
+    mm: 1, cm: 10, q: 0.25, in: 25.4, pt: 25.4 / 72, pc: 25.4 / 6
+};
+
+// Un'unità utente senza viewBox è un px CSS (1/96 di pollice)
+export const MM_PER_CSS_PX = 25.4 / 96;
+
+export class SvgTransform {
+
+    /** m1 × m2: applica prima m2, poi m1. */
+    static multiply(m1: Matrix, m2: Matrix): Matrix {
+        const [a1, b1, c1, d1, e1, f1] = m1;
+        const [a2, b2, c2, d2, e2, f2] = m2;
+        return [
+            a1 * a2 + c1 * b2, b1 * a2 + d1 * b2,
+            a1 * c2 + c1 * d2, b1 * c2 + d1 * d2,
+            a1 * e2 + c1 * f2 + e1, b1 * e2 + d1 * f2 + f1
+        ];
+    }
+
+    static apply(m: Matrix, p: Point2D): Point2D {
+        return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+    }
+
+    /** Fattore di scala medio (per spessori e raggi): radice del determinante. */
+    static scaleFactor(m: Matrix): number {
+        return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+    }
+
+    /**
+     * Attributo `transform`: lista di matrix, translate, scale, rotate, skewX, skewY
+     * composte da sinistra a destra.
+     */
+    static parse(value: string | undefined): Matrix {
+        let m: Matrix = IDENTITY;
+        if (!value) return m;
+
+        const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+        let match: RegExpExecArray | null;
+        while ((match = re.exec(value)) !== null) {
+            const args = (match[2].match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) || []).map(Number);
+            m = this.multiply(m, this.fromFunction(match[1], args));
+        }
+        return m;
+    }
+
+    /**
+     * Lunghezza SVG in mm, o null se non è in un'unità fisica (numero puro, px o percentuale).
+     */
+    static lengthToMm(value: string | number | undefined): number | null {
+        if (value === undefined) return null;
+        const m = String(value).trim().match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)\s*([a-zA-Z%]*)$/);
+        if (!m) return null;
+        const unit = m[2].toLowerCase();
+        const factor = MM_PER_UNIT[unit];
+        return factor !== undefined ? parseFloat(m[1]) * factor : null;
+    }
+
+    private static fromFunction(name: string, args: number[]): Matrix {
+        const rad = (deg: number) => deg * Math.PI / 180;
+        switch (name) {
+            case 'matrix':
+                return args.length >= 6 ? [args[0], args[1], args[2], args[3], args[4], args[5]] : IDENTITY;
+            case 'translate':
+                return [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+            case 'scale': {
+                const sx = args[0] ?? 1;
+                return [sx, 0, 0, args[1] ?? sx, 0, 0];
+            }
+            case 'rotate': {
+                const a = rad(args[0] ?? 0);
+                const cos = Math.cos(a), sin = Math.sin(a);
+                const r: Matrix = [cos, sin, -sin, cos, 0, 0];
+                if (args.length < 3) return r;
+                // rotate(a, cx, cy) = translate(cx, cy) rotate(a) translate(-cx, -cy)
+                const [cx, cy] = [args[1], args[2]];
+                return this.multiply(this.multiply([1, 0, 0, 1, cx, cy], r), [1, 0, 0, 1, -cx, -cy]);
+            }
+            case 'skewX':
+                return [1, 0, Math.tan(rad(args[0] ?? 0)), 1, 0, 0];
+            case 'skewY':
+                return [1, Math.tan(rad(args[0] ?? 0)), 0, 1, 0, 0];
+            default:
+                return IDENTITY;
+        }
+    }
+}
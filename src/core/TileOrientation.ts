@@ -0,0 +1,78 @@
+import { GeometryUtils, Point2D } from '../utils/GeometryUtils';
+
+/**
+ * Orientamento di un tile sul piatto.
+ * `angle` (gradi, antiorario, in (-90, 90]) è la rotazione da applicare al tile attorno a `center`;
+ * `width`/`height` sono le dimensioni della bounding box dopo la rotazione.
+ */
+export type TileFitResult = {
+    fits: boolean;
+    angle: number;
+    width: number;
+    height: number;
+    center: Point2D;
+};
+
+// Passo della ricerca esaustiva degli angoli (gradi)
+const SWEEP_STEP = 1;
+
+export class TileOrientation {
+
+    /**
+     * Cerca una rotazione con cui il tile entra nel piatto, preferendo nell'ordine:
+     * nessuna rotazione, gli allineamenti del rettangolo di area minima (anche a 90°),
+     * poi una ricerca su tutti gli angoli (posizionamento in diagonale).
+     * Se nessun angolo funziona restituisce quello con lo sforamento minore e `fits = false`.
+     */
+    static fit(points: Point2D[], bedWidth: number, bedHeight: number): TileFitResult {
+        const hull = GeometryUtils.convexHull(points);
+        let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+        for (const p of hull) {
+            if (p.x < minX) minX = p.x; if (p.x > maxX) maxX = p.x;
+            if (p.y < minY) minY = p.y; if (p.y > maxY) maxY = p.y;
+        }
+        const center = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+
+        const rect = GeometryUtils.minAreaRect(hull);
+        const candidates = [0, -rect.angle, 90 - rect.angle];
+        for (let a = SWEEP_STEP; a < 180; a += SWEEP_STEP) candidates.push(a);
+
+        let best: TileFitResult | null = null;
+        let bestOverflow = Infinity;
+        for (const candidate of candidates) {
+            const angle = this.normalize(candidate);
+            const size = this.rotatedSize(hull, angle);
+            const overflow = Math.max(size.width / bedWidth, size.height / bedHeight);
+            if (overflow <= 1) {
+                return { fits: true, angle, width: size.width, height: size.height, center };
+            }
+            if (overflow < bestOverflow) {
+                bestOverflow = overflow;
+                best = { fits: false, angle, width: size.width, height: size.height, center };
+            }
+        }
+        return best!;
+    }
+
+    /** Bounding box dei punti ruotati di `angle` gradi. */
+    private static rotatedSize(points: Point2D[], angle: number): { width: number, height: number } {
+        const rad = angle * Math.PI / 180;
+        const cos = Math.cos(rad), sin = Math.sin(rad);
+        let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+        for (const p of points) {
+            const x = p.x * cos - p.y * sin;
+            const y = p.x * sin + p.y * cos;
+            if (x < minX) minX = x; if (x > maxX) maxX = x;
+            if (y < minY) minY = y; if (y > maxY) maxY = y;
+        }
+        return { width: maxX - minX, height: maxY - minY };
+    }
+
+    // Angoli a meno di 180°: la bounding box non cambia
+    private static normalize(angle: number): number {
+        let a = ((angle % 180) + 180) % 180;
+        if (a > 90) a -= 180;
+        // Arrotondamento per evitare rotazioni tipo 1e-14° nei file generati
+        return Math.round(a * 1000) / 1000 || 0;
+    }
+}
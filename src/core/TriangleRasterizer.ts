@@ -0,0 +1,68 @@
+/**
+ * Sistema di riferimento della griglia: la cella (gx, gy) ha centro in
+ * X = minX + (gx + 0.5) * resolution, Y = maxY - (gy + 0.5) * resolution (Riga 0 = Y_MAX).
+ */
+export type GridFrame = { minX: number, maxY: number, resolution: number, width: number, height: number };
+
+// Tolleranza baricentrica: i centri esattamente sugli spigoli condivisi vanno a entrambi i triangoli (max)
+const EDGE_EPSILON = 1e-7;
+
+export class TriangleRasterizer {
+
+    /**
+     * Rasterizza un triangolo nel Z-Buffer (tiene il punto più alto).
+     * La Z è interpolata con coordinate baricentriche sul centro di ogni cella coperta dall'impronta XY.
+     * I triangoli più piccoli di una cella (o degeneri in XY, come le pareti verticali) non coprono
+     * nessun centro: in quel caso si scrivono i soli vertici, come faceva il vecchio Z-buffer a punti.
+     */
+    static rasterize(v: ArrayLike<number>, grid: Float32Array, frame: GridFrame) {
+        const { minX, maxY, resolution, width, height } = frame;
+
+        // Coordinate griglia continue (u = colonna, w = riga)
+        const u0 = (v[0] - minX) / resolution, w0 = (maxY - v[1]) / resolution, z0 = v[2];
+        const u1 = (v[3] - minX) / resolution, w1 = (maxY - v[4]) / resolution, z1 = v[5];
+        const u2 = (v[6] - minX) / resolution, w2 = (maxY - v[7]) / resolution, z2 = v[8];
+
+        const area = (u1 - u0) * (w2 - w0) - (u2 - u0) * (w1 - w0);
+        let covered = false;
+
+        if (Math.abs(area) > 1e-12) {
+            // Range dei centri cella (gx + 0.5) dentro la bounding box del triangolo
+            const gxStart = Math.max(0, Math.ceil(Math.min(u0, u1, u2) - 0.5));
+            const gxEnd = Math.min(width - 1, Math.floor(Math.max(u0, u1, u2) - 0.5));
+            const gyStart = Math.max(0, Math.ceil(Math.min(w0, w1, w2) - 0.5));
+            const gyEnd = Math.min(height - 1, Math.floor(Math.max(w0, w1, w2) - 0.5));
+            const invArea = 1 / area;
+
+            for (let gy = gyStart; gy <= gyEnd; gy++) {
+                const pw = gy + 0.5;
+                const rowOffset = gy * width;
+                for (let gx = gxStart; gx <= gxEnd; gx++) {
+                    const pu = gx + 0.5;
+
+                    // Baricentriche (pesi dei vertici 0, 1, 2)
+                    const b1 = ((pu - u0) * (w2 - w0) - (u2 - u0) * (pw - w0)) * invArea;
+                    const b2 = ((u1 - u0) * (pw - w0) - (pu - u0) * (w1 - w0)) * invArea;
+                    const b0 = 1 - b1 - b2;
+                    if (b0 < -EDGE_EPSILON || b1 < -EDGE_EPSILON || b2 < -EDGE_EPSILON) continue;
+
+                    covered = true;
+                    const z = b0 * z0 + b1 * z1 + b2 * z2;
+                    const idx = rowOffset + gx;
+                    if (z > grid[idx]) grid[idx] = z;
+                }
+            }
+        }
+
+        if (!covered) {
+            for (let k = 0; k < 9; k += 3) {
+                const gx = Math.floor((v[k] - minX) / resolution);
+                const gy = Math.floor((maxY - v[k + 1]) / resolution);
+                if (gy >= 0 && gy < height && gx >= 0 && gx < width) {
+                    const idx = gy * width + gx;
+                    if (v[k + 2] > grid[idx]) grid[idx] = v[k + 2];
+                }
+            }
+        }
+    }
+}
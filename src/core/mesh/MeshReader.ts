@@ -0,0 +1,90 @@
+export type MeshFormat = 'stl' | '3mf' | 'obj';
+
+/**
+ * Callback invocata per ogni triangolo letto.
+ * `v` contiene 9 float (x0,y0,z0, x1,y1,z1, x2,y2,z2) ed è RIUTILIZZATO tra le chiamate:
+ * copiarlo se serve conservarlo.
+ */
+export type TriangleVisitor = (v: Float32Array) => void;
+
+/** Avanzamento della lettura: `processed` su `total` (bytes per gli STL in streaming, triangoli altrimenti) */
+export type ProgressCallback = (processed: number, total: number) => void;
+
+export type MeshMaterial = { name?: string, color?: string };
+
+/** Gruppo di materiali/colori (3MF `basematerials`/`colorgroup`, OBJ `mtllib`) */
+export type MeshMaterialGroup = {
+    id: string;
+    type: 'basematerials' | 'colorgroup' | 'mtl';
+    materials: MeshMaterial[];
+};
+
+/**
+ * Sequenza di triangoli consecutivi (nell'ordine di visita) che usano lo stesso materiale.
+ * Run-length per restare compatti anche su mesh con milioni di triangoli.
+ */
+export type MeshMaterialRun = { start: number, count: number, groupId: string, index: number };
+
+export type MeshMetadata = {
+    format: MeshFormat;
+    /** Unità dichiarata dal file (i vertici sono sempre restituiti in mm) */
+    units?: string;
+    materialGroups: MeshMaterialGroup[];
+    materialRuns: MeshMaterialRun[];
+};
+
+/**
+ * Lettore di mesh indipendente dal formato.
+ * Tutti i vertici sono in mm, nel sistema di riferimento del file (trasformazioni di build già applicate).
+ */
+export interface MeshReader {
+    readonly format: MeshFormat;
+    readonly filePath: string;
+
+    /**
+     * Visita tutti i triangoli della mesh.
+     * @returns numero di triangoli visitati
+     */
+    forEachTriangle(visitor: TriangleVisitor, onProgress?: ProgressCallback): number;
+
+    getMetadata(): MeshMetadata;
+}
+
+/**
+ * Accumula i run di materiale durante il parsing (un triangolo alla volta).
+ */
+export class MaterialRunBuilder {
+    private runs: MeshMaterialRun[] = [];
+
+    push(triangleIndex: number, groupId: string | undefined, index: number) {
+        if (groupId === undefined) return;
+        const last = this.runs[this.runs.length - 1];
+        if (last && last.groupId === groupId && last.index === index && last.start + last.count === triangleIndex) {
+            last.count++;
+        } else {
+            this.runs.push({ start: triangleIndex, count: 1, groupId, index });
+        }
+    }
+
+    build(): MeshMaterialRun[] {
+        return this.runs;
+    }
+}
+
+// Frequenza delle notifiche di avanzamento per i reader che tengono la mesh in memoria
+const PROGRESS_STEP = 65536;
+
+/**
+ * Visita una mesh già caricata come array piatto di posizioni (9 float per triangolo).
+ * Usato dai reader 3MF/OBJ, che devono decomprimere/indicizzare l'intero file prima di poterlo visitare.
+ */
+export function visitPositions(positions: Float32Array, visitor: TriangleVisitor, onProgress?: ProgressCallback): number {
+    const v = new Float32Array(9);
+    const count = positions.length / 9;
+    for (let i = 0; i < count; i++) {
+        v.set(positions.subarray(i * 9, i * 9 + 9));
+        visitor(v);
+        if (onProgress && ((i + 1) % PROGRESS_STEP === 0 || i === count - 1)) onProgress(i + 1, count);
+    }
+    return count;
+}
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import { MeshFormat, MeshReader } from './MeshReader';
+import { StlMeshReader } from './StlReader';
+import { ThreeMfMeshReader } from './ThreeMfReader';
+import { ObjMeshReader } from './ObjReader';
+import { ZipArchive } from '../../utils/ZipArchive';
+
+const WRITE_CHUNK_TRIANGLES = 65536;
+
+const EXTENSIONS: Record<string, MeshFormat> = { '.stl': 'stl', '.3mf': '3mf', '.obj': 'obj' };
+
+const FACTORIES: Record<MeshFormat, (filePath: string) => MeshReader> = {
+    stl: (p) => new StlMeshReader(p),
+    '3mf': (p) => new ThreeMfMeshReader(p),
+    obj: (p) => new ObjMeshReader(p)
+};
+
+/**
+ * Punto di ingresso del layer di lettura mesh: sceglie il reader per estensione
+ * o, se l'estensione non è riconosciuta, dai primi byte del file.
+ */
+export class MeshReaders {
+
+    static open(filePath: string): MeshReader {
+        return FACTORIES[this.detectFormat(filePath)](filePath);
+    }
+
+    static detectFormat(filePath: string): MeshFormat {
+        const byExtension = EXTENSIONS[path.extname(filePath).toLowerCase()];
+        if (byExtension) return byExtension;
+
+        // Magic bytes: ZIP (3MF), "solid" (STL ASCII), righe "v " (OBJ), altrimenti dimensione STL binario
+        const fd = fs.openSync(filePath, 'r');
+        const head = Buffer.alloc(1024);
+        const bytesRead = fs.readSync(fd, head, 0, head.length, 0);
+        const size = fs.fstatSync(fd).size;
+        fs.closeSync(fd);
+
+        const sample = head.subarray(0, bytesRead);
+        if (ZipArchive.isZip(sample)) return '3mf';
+        if (bytesRead >= 84 && 84 + sample.readUInt32LE(80) * 50 === size) return 'stl';
+
+        const text = sample.toString('latin1');
+        if (/^\s*solid\b/i.test(text)) return 'stl';
+        if (/^\s*v\s+[-+\d.]/m.test(text)) return 'obj';
+
+        throw new Error(`Formato mesh non riconosciuto per "${path.basename(filePath)}" (supportati: STL, 3MF, OBJ)`);
+    }
+
+    /**
+     * Scrive la mesh come STL binario (usato per passare input 3MF/OBJ a OpenSCAD).
+     * La scrittura procede a blocchi, senza allocare l'intero file in memoria.
+     * @returns numero di triangoli scritti
+     */
+    static writeBinaryStl(reader: MeshReader, outPath: string): number {
+        const triangleCount = reader.forEachTriangle(() => { });
+        const header = Buffer.alloc(84);
+        header.write(`hueslicer export from ${reader.format}`, 0, 80, 'latin1');
+        header.writeUInt32LE(triangleCount, 80);
+
+        const fd = fs.openSync(outPath, 'w');
+        try {
+            fs.writeSync(fd, header);
+            const chunk = Buffer.alloc(WRITE_CHUNK_TRIANGLES * 50);
+            let offset = 0;
+
+            reader.forEachTriangle((v) => {
+                // Normale dal prodotto vettoriale (gli slicer la ricalcolano comunque)
+                const ux = v[3] - v[0], uy = v[4] - v[1], uz = v[5] - v[2];
+                const wx = v[6] - v[0], wy = v[7] - v[1], wz = v[8] - v[2];
+                let nx = uy * wz - uz * wy, ny = uz * wx - ux * wz, nz = ux * wy - uy * wx;
+                const len = Math.hypot(nx, ny, nz) || 1;
+                nx /= len; ny /= len; nz /= len;
+
+                chunk.writeFloatLE(nx, offset); chunk.writeFloatLE(ny, offset + 4); chunk.writeFloatLE(nz, offset + 8);
+                for (let k = 0; k < 9; k++) chunk.writeFloatLE(v[k], offset + 12 + k * 4);
+                chunk.writeUInt16LE(0, offset + 48);
+                offset += 50;
+
+                if (offset === chunk.length) {
+                    fs.writeSync(fd, chunk);
+                    offset = 0;
+                }
+            });
+            if (offset > 0) fs.writeSync(fd, chunk, 0, offset);
+        } finally {
+            fs.closeSync(fd);
+        }
+        return triangleCount;
+    }
+}
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import { MaterialRunBuilder, MeshMaterialGroup, MeshMetadata, MeshReader, ProgressCallback, TriangleVisitor, visitPositions } from './MeshReader';
+
+/**
+ * Lettore Wavefront OBJ.
+ * Supporta `v`/`f` (indici positivi, negativi e forme `v/vt/vn`), triangolazione a ventaglio dei poligoni
+ * e `usemtl` con i colori diffusi (`Kd`) letti dal `mtllib` se presente accanto al file.
+ * Le coordinate sono considerate già in mm con Z verso l'alto (come gli export HueForge).
+ * Il file viene letto e indicizzato per intero in memoria: solo lo STL è letto in streaming.
+ */
+export class ObjMeshReader implements MeshReader {
+    readonly format = 'obj' as const;
+    readonly filePath: string;
+
+    private positions: Float32Array | null = null;
+    private metadata: MeshMetadata | null = null;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    forEachTriangle(visitor: TriangleVisitor, onProgress?: ProgressCallback): number {
+        this.load();
+        return visitPositions(this.positions!, visitor, onProgress);
+    }
+
+    getMetadata(): MeshMetadata {
+        this.load();
+        return this.metadata!;
+    }
+
+    private load() {
+        if (this.positions) return;
+
+        const text = fs.readFileSync(this.filePath, 'utf-8');
+        const vertices: number[] = [];
+        const out: number[] = [];
+        const runs = new MaterialRunBuilder();
+        const materials: MeshMaterialGroup = { id: 'mtl', type: 'mtl', materials: [] };
+        const materialIndex = new Map<string, number>();
+        let currentMaterial = -1;
+
+        const resolve = (token: string, lineNumber: number): number => {
+            const idx = parseInt(token.split('/')[0]);
+            const count = vertices.length / 3;
+            const resolved = idx < 0 ? count + idx : idx - 1;
+            if (isNaN(idx) || resolved < 0 || resolved >= count) {
+                throw new Error(`OBJ non valido alla riga ${lineNumber}: indice vertice "${token}" fuori range`);
+            }
+            return resolved;
+        };
+
+        const lines = text.split(/\r?\n/);
+        for (let n = 0; n < lines.length; n++) {
+            const line = lines[n].trim();
+            if (line.length === 0 || line[0] === '#') continue;
+            const tokens = line.split(/\s+/);
+
+            switch (tokens[0]) {
+                case 'v':
+                    vertices.push(parseFloat(tokens[1]), parseFloat(tokens[2]), parseFloat(tokens[3]));
+                    break;
+                case 'f': {
+                    const idx = tokens.slice(1).map(t => resolve(t, n + 1));
+                    for (let k = 1; k < idx.length - 1; k++) {
+                        for (const vi of [idx[0], idx[k], idx[k + 1]]) {
+                            out.push(vertices[vi * 3], vertices[vi * 3 + 1], vertices[vi * 3 + 2]);
+                        }
+                        if (currentMaterial >= 0) runs.push(out.length / 9 - 1, materials.id, currentMaterial);
+                    }
+                    break;
+                }
+                case 'mtllib':
+                    this.loadMaterialLibrary(tokens.slice(1).join(' '), materials, materialIndex);
+                    break;
+                case 'usemtl': {
+                    const name = tokens.slice(1).join(' ');
+                    if (!materialIndex.has(name)) {
+                        materialIndex.set(name, materials.materials.length);
+                        materials.materials.push({ name });
+                    }
+                    currentMaterial = materialIndex.get(name)!;
+                    break;
+                }
+            }
+        }
+
+        if (out.length === 0) throw new Error("OBJ non valido: nessuna faccia trovata");
+
+        this.positions = new Float32Array(out);
+        this.metadata = {
+            format: this.format,
+            units: 'millimeter',
+            materialGroups: materials.materials.length > 0 ? [materials] : [],
+            materialRuns: runs.build()
+        };
+    }
+
+    private loadMaterialLibrary(fileName: string, group: MeshMaterialGroup, index: Map<string, number>) {
+        const mtlPath = path.resolve(path.dirname(this.filePath), fileName);
+        if (!fs.existsSync(mtlPath)) {
+            console.warn(`⚠️  mtllib "${fileName}" non trovato: i materiali avranno solo il nome.`);
+            return;
+        }
+
+        let current: { name?: string, color?: string } | null = null;
+        for (const raw of fs.readFileSync(mtlPath, 'utf-8').split(/\r?\n/)) {
+            const tokens = raw.trim().split(/\s+/);
+            if (tokens[0] === 'newmtl') {
+                const name = tokens.slice(1).join(' ');
+                current = { name };
+                index.set(name, group.materials.length);
+                group.materials.push(current);
+            } else if (tokens[0] === 'Kd' && current) {
+                const hex = tokens.slice(1, 4)
+                    .map(c => Math.round(Math.min(Math.max(parseFloat(c), 0), 1) * 255).toString(16).padStart(2, '0'))
+                    .join('');
+                current.color = `#${hex.toUpperCase()}`;
+            }
+        }
+    }
+}
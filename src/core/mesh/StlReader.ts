@@ -0,0 +1,220 @@
+import fs from 'fs';
+import { MeshMetadata, MeshReader, ProgressCallback, TriangleVisitor } from './MeshReader';
+
+export type StlFormat = 'binary' | 'ascii';
+
+// Header binario: 80 bytes + 4 bytes (unsigned long) numero triangoli
+const BINARY_HEADER_SIZE = 84;
+// Ogni triangolo è 50 bytes: Normal(12) + V1(12) + V2(12) + V3(12) + Attr(2)
+const BINARY_TRIANGLE_SIZE = 50;
+
+// Dimensione dei blocchi letti da disco: la memoria usata non dipende dalla dimensione del file
+const CHUNK_TRIANGLES = 65536;
+const ASCII_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Parser ASCII a stati, alimentato una riga alla volta: funziona sia su buffer interi
+ * sia su blocchi letti in streaming (la riga spezzata tra due blocchi viene ricomposta dal chiamante).
+ */
+class AsciiStlParser {
+    private v = new Float32Array(9);
+    private vertexInFacet = 0;
+    private inFacet = false;
+    private lineNumber = 0;
+    public triangleCount = 0;
+
+    constructor(private visitor: TriangleVisitor) { }
+
+    feedLine(buffer: Buffer, start: number, end: number) {
+        this.lineNumber++;
+        const line = buffer.toString('latin1', start, end).trim();
+        if (line.length === 0) return;
+
+        const tokens = line.split(/\s+/);
+        const keyword = tokens[0].toLowerCase();
+
+        if (keyword === 'facet') {
+            this.inFacet = true;
+            this.vertexInFacet = 0;
+        } else if (keyword === 'vertex') {
+            if (!this.inFacet || this.vertexInFacet >= 3 || tokens.length < 4) {
+                throw new Error(`STL ASCII non valido alla riga ${this.lineNumber}: vertice inatteso ("${line}")`);
+            }
+            for (let k = 0; k < 3; k++) {
+                const value = parseFloat(tokens[k + 1]);
+                if (isNaN(value)) {
+                    throw new Error(`STL ASCII non valido alla riga ${this.lineNumber}: coordinata non numerica ("${line}")`);
+                }
+                this.v[this.vertexInFacet * 3 + k] = value;
+            }
+            this.vertexInFacet++;
+        } else if (keyword === 'endfacet') {
+            if (this.vertexInFacet !== 3) {
+                throw new Error(`STL ASCII non valido alla riga ${this.lineNumber}: facet con ${this.vertexInFacet} vertici`);
+            }
+            this.visitor(this.v);
+            this.triangleCount++;
+            this.inFacet = false;
+        }
+        // 'solid', 'outer loop', 'endloop', 'endsolid' non portano dati
+    }
+
+    /**
+     * Processa tutte le righe complete del buffer.
+     * @returns offset del primo byte non consumato (inizio della riga incompleta)
+     */
+    feedLines(buffer: Buffer, final: boolean): number {
+        let start = 0;
+        while (start < buffer.length) {
+            const end = buffer.indexOf(0x0a, start); // '\n'
+            if (end === -1) {
+                if (!final) return start;
+                this.feedLine(buffer, start, buffer.length);
+                return buffer.length;
+            }
+            this.feedLine(buffer, start, end);
+            start = end + 1;
+        }
+        return start;
+    }
+
+    finish(): number {
+        if (this.triangleCount === 0) {
+            throw new Error("STL ASCII non valido: nessun facet trovato.");
+        }
+        return this.triangleCount;
+    }
+}
+
+export class StlReader {
+
+    /**
+     * Riconosce il formato di un STL dai primi byte e dalla dimensione totale del file.
+     * Un binario valido ha dimensione esatta 84 + n*50; alcuni exporter scrivono "solid" anche
+     * nell'header binario, quindi il controllo sulla dimensione ha la precedenza.
+     */
+    static detectFormat(head: Buffer, totalSize: number = head.length): StlFormat {
+        if (head.length >= BINARY_HEADER_SIZE) {
+            const triangleCount = head.readUInt32LE(80);
+            if (BINARY_HEADER_SIZE + triangleCount * BINARY_TRIANGLE_SIZE === totalSize) return 'binary';
+        }
+
+        const text = head.toString('latin1', 0, Math.min(head.length, 1024)).trimStart().toLowerCase();
+        if (text.startsWith('solid') && (text.includes('facet') || text.includes('endsolid'))) return 'ascii';
+
+        const expected = head.length >= BINARY_HEADER_SIZE
+            ? `${BINARY_HEADER_SIZE + head.readUInt32LE(80) * BINARY_TRIANGLE_SIZE} bytes`
+            : `almeno ${BINARY_HEADER_SIZE} bytes`;
+        throw new Error(
+            `File STL non valido: non è binario (attesi ${expected}, trovati ${totalSize}) ` +
+            `né ASCII (manca l'intestazione 'solid ... facet').`
+        );
+    }
+
+    /**
+     * Visita tutti i triangoli di un buffer già in memoria, indipendentemente dal formato.
+     * @returns numero di triangoli visitati
+     */
+    static forEachTriangle(buffer: Buffer, visitor: TriangleVisitor): number {
+        if (this.detectFormat(buffer) === 'binary') {
+            const triangleCount = buffer.readUInt32LE(80);
+            this.visitBinaryChunk(buffer.subarray(BINARY_HEADER_SIZE), triangleCount, visitor);
+            return triangleCount;
+        }
+        const parser = new AsciiStlParser(visitor);
+        parser.feedLines(buffer, true);
+        return parser.finish();
+    }
+
+    /**
+     * Visita tutti i triangoli leggendo il file a blocchi (memoria costante, adatto a STL da GB).
+     * @param onProgress chiamata dopo ogni blocco con i byte letti sul totale
+     * @returns numero di triangoli visitati
+     */
+    static forEachTriangleInFile(filePath: string, visitor: TriangleVisitor, onProgress?: ProgressCallback): number {
+        const fd = fs.openSync(filePath, 'r');
+        try {
+            const totalSize = fs.fstatSync(fd).size;
+            const head = Buffer.alloc(Math.min(1024, totalSize));
+            fs.readSync(fd, head, 0, head.length, 0);
+            const format = this.detectFormat(head, totalSize);
+
+            return format === 'binary'
+                ? this.streamBinary(fd, head.readUInt32LE(80), totalSize, visitor, onProgress)
+                : this.streamAscii(fd, totalSize, visitor, onProgress);
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    private static streamBinary(fd: number, triangleCount: number, totalSize: number, visitor: TriangleVisitor, onProgress?: ProgressCallback): number {
+        const chunk = Buffer.alloc(CHUNK_TRIANGLES * BINARY_TRIANGLE_SIZE);
+        let position = BINARY_HEADER_SIZE;
+        let remaining = triangleCount;
+
+        while (remaining > 0) {
+            const count = Math.min(remaining, CHUNK_TRIANGLES);
+            const bytes = count * BINARY_TRIANGLE_SIZE;
+            const read = fs.readSync(fd, chunk, 0, bytes, position);
+            if (read < bytes) throw new Error(`STL binario troncato: letti ${position + read} di ${totalSize} bytes`);
+
+            this.visitBinaryChunk(chunk, count, visitor);
+            position += bytes;
+            remaining -= count;
+            onProgress?.(position, totalSize);
+        }
+        return triangleCount;
+    }
+
+    private static streamAscii(fd: number, totalSize: number, visitor: TriangleVisitor, onProgress?: ProgressCallback): number {
+        const parser = new AsciiStlParser(visitor);
+        let carry = Buffer.alloc(0);
+        let position = 0;
+        const chunk = Buffer.alloc(ASCII_CHUNK_SIZE);
+
+        while (position < totalSize) {
+            const read = fs.readSync(fd, chunk, 0, chunk.length, position);
+            if (read === 0) break;
+            position += read;
+
+            // Ricompone la riga rimasta a metà dal blocco precedente
+            const data = carry.length > 0 ? Buffer.concat([carry, chunk.subarray(0, read)]) : chunk.subarray(0, read);
+            const consumed = parser.feedLines(data, position >= totalSize);
+            carry = Buffer.from(data.subarray(consumed));
+            onProgress?.(position, totalSize);
+        }
+        return parser.finish();
+    }
+
+    private static visitBinaryChunk(chunk: Buffer, count: number, visitor: TriangleVisitor) {
+        const v = new Float32Array(9);
+        for (let i = 0; i < count; i++) {
+            const offset = (i * BINARY_TRIANGLE_SIZE) + 12; // Salta la normale
+            for (let k = 0; k < 9; k++) {
+                v[k] = chunk.readFloatLE(offset + k * 4);
+            }
+            visitor(v);
+        }
+    }
+}
+
+/**
+ * Adattatore `MeshReader` per STL (binario o ASCII). Il file non viene mai caricato intero:
+ * ogni visita lo rilegge a blocchi da disco.
+ */
+export class StlMeshReader implements MeshReader {
+    readonly format = 'stl' as const;
+    readonly filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    forEachTriangle(visitor: TriangleVisitor, onProgress?: ProgressCallback): number {
+        return StlReader.forEachTriangleInFile(this.filePath, visitor, onProgress);
+    }
+
+    getMetadata(): MeshMetadata {
+        return { format: this.format, units: 'millimeter', materialGroups: [], materialRuns: [] };
+    }
+}
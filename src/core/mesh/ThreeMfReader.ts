@@ -0,0 +1,242 @@
+import fs from 'fs';
+import { ZipArchive } from '../../utils/ZipArchive';
+import { MaterialRunBuilder, MeshMaterialGroup, MeshMetadata, MeshReader, ProgressCallback, TriangleVisitor, visitPositions } from './MeshReader';
+
+// Fattori di conversione verso mm (attributo `unit` del tag <model>)
+const UNIT_SCALE: Record<string, number> = {
+    micron: 0.001, millimeter: 1, centimeter: 10, inch: 25.4, foot: 304.8, meter: 1000
+};
+
+const DEFAULT_MODEL_PATH = '3D/3dmodel.model';
+
+// Matrice affine 3MF "m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32" (vettori riga: p' = p * M)
+type Transform = number[];
+const IDENTITY: Transform = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+type ObjectDef = {
+    pid?: string;
+    pindex: number;
+    vertices: number[];
+    // v1, v2, v3 per triangolo; proprietà opzionali in parallelo
+    triangles: number[];
+    trianglePid: (string | undefined)[];
+    triangleP1: number[];
+    components: { objectId: string, path: string, transform: Transform }[];
+};
+
+type ModelFile = {
+    unit: string;
+    objects: Map<string, ObjectDef>;
+    groups: Map<string, MeshMaterialGroup>;
+    build: { objectId: string, path: string, transform: Transform }[];
+};
+
+/**
+ * Lettore 3MF (Core Spec + estensioni Materials e Production per i componenti in file separati).
+ * Le trasformazioni di build/componenti e l'unità di misura vengono applicate, quindi i triangoli
+ * escono in mm nel sistema di riferimento della piastra. I gruppi colore/materiale sono conservati
+ * nei metadata insieme ai run di triangoli che li usano.
+ * L'archivio viene decompresso per intero in memoria: solo lo STL è letto in streaming.
+ */
+export class ThreeMfMeshReader implements MeshReader {
+    readonly format = '3mf' as const;
+    readonly filePath: string;
+
+    private positions: Float32Array | null = null;
+    private metadata: MeshMetadata | null = null;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    forEachTriangle(visitor: TriangleVisitor, onProgress?: ProgressCallback): number {
+        this.load();
+        return visitPositions(this.positions!, visitor, onProgress);
+    }
+
+    getMetadata(): MeshMetadata {
+        this.load();
+        return this.metadata!;
+    }
+
+    private load() {
+        if (this.positions) return;
+
+        const zip = new ZipArchive(fs.readFileSync(this.filePath));
+        const rootPath = this.findRootModel(zip);
+        const models = new Map<string, ModelFile>();
+        const getModel = (p: string): ModelFile => {
+            const key = p.replace(/^\/+/, '');
+            if (!models.has(key)) {
+                if (!zip.has(key)) throw new Error(`3MF non valido: modello "${p}" mancante nell'archivio`);
+                models.set(key, this.parseModel(zip.readText(key)));
+            }
+            return models.get(key)!;
+        };
+
+        const root = getModel(rootPath);
+        const scale = UNIT_SCALE[root.unit] ?? 1;
+        const out: number[] = [];
+        const runs = new MaterialRunBuilder();
+        const groups = new Map<string, MeshMaterialGroup>();
+
+        const emitObject = (path: string, objectId: string, transform: Transform, depth: number) => {
+            if (depth > 32) throw new Error("3MF non valido: riferimenti ciclici tra componenti");
+            const model = getModel(path);
+            const obj = model.objects.get(objectId);
+            if (!obj) throw new Error(`3MF non valido: oggetto ${objectId} non definito in "${path}"`);
+
+            for (const comp of obj.components) {
+                emitObject(comp.path || path, comp.objectId, this.multiply(comp.transform, transform), depth + 1);
+            }
+
+            const triCount = obj.triangles.length / 3;
+            for (let t = 0; t < triCount; t++) {
+                for (let k = 0; k < 3; k++) {
+                    const vi = obj.triangles[t * 3 + k] * 3;
+                    const x = obj.vertices[vi], y = obj.vertices[vi + 1], z = obj.vertices[vi + 2];
+                    const m = transform;
+                    out.push(
+                        (x * m[0] + y * m[3] + z * m[6] + m[9]) * scale,
+                        (x * m[1] + y * m[4] + z * m[7] + m[10]) * scale,
+                        (x * m[2] + y * m[5] + z * m[8] + m[11]) * scale
+                    );
+                }
+                // Le proprietà del triangolo hanno la precedenza su quelle di default dell'oggetto
+                const pid = obj.trianglePid[t] ?? obj.pid;
+                const group = pid !== undefined ? model.groups.get(pid) : undefined;
+                if (group) {
+                    const groupId = path === rootPath ? pid! : `${path}#${pid}`;
+                    if (!groups.has(groupId)) groups.set(groupId, { ...group, id: groupId });
+                    const index = obj.triangleP1[t] >= 0 ? obj.triangleP1[t] : obj.pindex;
+                    runs.push(out.length / 9 - 1, groupId, index);
+                }
+            }
+        };
+
+        for (const item of root.build) {
+            emitObject(item.path || rootPath, item.objectId, item.transform, 0);
+        }
+
+        if (out.length === 0) throw new Error("3MF non valido: nessun triangolo negli oggetti di build");
+
+        this.positions = new Float32Array(out);
+        this.metadata = {
+            format: this.format,
+            units: root.unit,
+            materialGroups: [...groups.values()],
+            materialRuns: runs.build()
+        };
+    }
+
+    private findRootModel(zip: ZipArchive): string {
+        if (zip.has('_rels/.rels')) {
+            const rels = zip.readText('_rels/.rels');
+            const rel = [...rels.matchAll(/<Relationship\b([^>]*)>/g)]
+                .map(m => this.attributes(m[1]))
+                .find(a => (a.Type || '').endsWith('/3dmodel'));
+            if (rel && rel.Target) return rel.Target.replace(/^\/+/, '');
+        }
+        if (zip.has(DEFAULT_MODEL_PATH)) return DEFAULT_MODEL_PATH;
+        throw new Error("3MF non valido: modello 3D principale non trovato");
+    }
+
+    private parseModel(xml: string): ModelFile {
+        const model: ModelFile = { unit: 'millimeter', objects: new Map(), groups: new Map(), build: [] };
+
+        let current: ObjectDef | null = null;
+        let currentGroup: MeshMaterialGroup | null = null;
+
+        // Scansione a tag (senza DOM): i file 3MF contengono milioni di <vertex/>
+        const tagRe = /<(\/?)(?:[\w.-]+:)?([\w.-]+)([^>]*?)(\/?)>/g;
+        let match: RegExpExecArray | null;
+        while ((match = tagRe.exec(xml)) !== null) {
+            const closing = match[1] === '/';
+            const tag = match[2];
+
+            if (closing) {
+                if (tag === 'object') current = null;
+                else if (tag === 'basematerials' || tag === 'colorgroup') currentGroup = null;
+                continue;
+            }
+
+            const attrs = this.attributes(match[3]);
+            switch (tag) {
+                case 'model':
+                    if (attrs.unit) model.unit = attrs.unit;
+                    break;
+                case 'object':
+                    current = {
+                        pid: attrs.pid, pindex: attrs.pindex !== undefined ? parseInt(attrs.pindex) : 0,
+                        vertices: [], triangles: [], trianglePid: [], triangleP1: [], components: []
+                    };
+                    model.objects.set(attrs.id, current);
+                    if (match[4] === '/') current = null;
+                    break;
+                case 'vertex':
+                    if (current) current.vertices.push(parseFloat(attrs.x), parseFloat(attrs.y), parseFloat(attrs.z));
+                    break;
+                case 'triangle':
+                    if (current) {
+                        current.triangles.push(parseInt(attrs.v1), parseInt(attrs.v2), parseInt(attrs.v3));
+                        current.trianglePid.push(attrs.pid);
+                        current.triangleP1.push(attrs.p1 !== undefined ? parseInt(attrs.p1) : -1);
+                    }
+                    break;
+                case 'component':
+                    if (current) current.components.push({
+                        objectId: attrs.objectid, path: (attrs.path || '').replace(/^\/+/, ''),
+                        transform: this.parseTransform(attrs.transform)
+                    });
+                    break;
+                case 'item':
+                    model.build.push({
+                        objectId: attrs.objectid, path: (attrs.path || '').replace(/^\/+/, ''),
+                        transform: this.parseTransform(attrs.transform)
+                    });
+                    break;
+                case 'basematerials':
+                case 'colorgroup':
+                    currentGroup = { id: attrs.id, type: tag, materials: [] };
+                    model.groups.set(attrs.id, currentGroup);
+                    break;
+                case 'base':
+                    if (currentGroup) currentGroup.materials.push({ name: attrs.name, color: attrs.displaycolor });
+                    break;
+                case 'color':
+                    if (currentGroup) currentGroup.materials.push({ color: attrs.color });
+                    break;
+            }
+        }
+        return model;
+    }
+
+    // Gli attributi con prefisso (p:path) vengono esposti senza namespace
+    private attributes(raw: string): Record<string, string> {
+        const attrs: Record<string, string> = {};
+        const re = /(?:[\w.-]+:)?([\w.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+        let m: RegExpExecArray | null;
+        while ((m = re.exec(raw)) !== null) attrs[m[1]] = m[2] ?? m[3];
+        return attrs;
+    }
+
+    private parseTransform(raw: string | undefined): Transform {
+        if (!raw) return IDENTITY;
+        const values = raw.trim().split(/\s+/).map(Number);
+        if (values.length !== 12 || values.some(isNaN)) throw new Error(`3MF non valido: transform "${raw}"`);
+        return values;
+    }
+
+    // Composizione: prima `a`, poi `b` (convenzione a vettori riga)
+    private multiply(a: Transform, b: Transform): Transform {
+        const r: Transform = new Array(12).fill(0);
+        for (let row = 0; row < 4; row++) {
+            for (let col = 0; col < 3; col++) {
+                let sum = row === 3 ? b[9 + col] : 0;
+                for (let k = 0; k < 3; k++) sum += a[row * 3 + k] * b[k * 3 + col];
+                r[row * 3 + col] = sum;
+            }
+        }
+        return r;
+    }
+}
@@ -0,0 +1,198 @@
+import { SegmentOptions, WatershedSeed, WatershedSegmenter } from './WatershedSegmenter';
+import { RegionInfo, RegionStats } from './RegionStats';
+import { SeedOptimizer } from './SeedOptimizer';
+import { TileOrientation } from '../TileOrientation';
+import { Point2D } from '../../utils/GeometryUtils';
+
+export type BedFitOptions = {
+  /** Bed size in mm */
+  bedWidth: number;
+  bedHeight: number;
+  /** mm per pixel */
+  resolution: number;
+  /** Allow rotated placement (minimum-area rectangle or diagonal) instead of the axis-aligned bounding box */
+  rotated?: boolean;
+  /** Split/re-seed rounds before giving up (0 = validate only) */
+  maxRounds: number;
+  segmentOptions?: SegmentOptions;
+};
+
+export type TileFit = {
+  label: number;
+  /** Measured size in mm (bounding box, or bounding box after the rotation with `rotated`) */
+  width: number;
+  height: number;
+  /** Rotation (degrees) that makes the region fit; 0 without `rotated` */
+  angle: number;
+  fits: boolean;
+};
+
+export type BedFitResult = {
+  seeds: WatershedSeed[];
+  labels: Int32Array;
+  rounds: number;
+  fits: boolean;
+  tiles: TileFit[];
+};
+
+/**
+ * Bed-size guarantee for the watershed regions: measures every region and, while some region
+ * does not fit the bed, splits it in two along its longest overflowing axis (new seed at each half's
+ * centroid) and segments again.
+ * A seed in a wide flat area can flood past a new neighbor: when a round does not reduce the
+ * oversized tiles, the flooding is made more compact (doubling the distance cost each time).
+ */
+export class BedFitter {
+
+  static repair(segmenter: WatershedSegmenter, seeds: WatershedSeed[], width: number, height: number, options: BedFitOptions): BedFitResult {
+    let current = seeds.map(s => ({ ...s }));
+    let rounds = 0;
+    let segmentOptions: SegmentOptions = { ...options.segmentOptions };
+    let previousOversized = Infinity;
+
+    while (true) {
+      const labels = segmenter.segment(current, segmentOptions);
+      const regions = RegionStats.compute(labels, width, height);
+      const tiles = this.measure(labels, width, height, regions, options);
+      const oversized = tiles.filter(t => !t.fits);
+
+      if (oversized.length === 0 || rounds >= options.maxRounds) {
+        return { seeds: current, labels, rounds, fits: oversized.length === 0, tiles };
+      }
+
+      if (oversized.length >= previousOversized) {
+        const bedPx = { width: options.bedWidth / options.resolution, height: options.bedHeight / options.resolution };
+        const compactness = Math.max((segmentOptions.compactness ?? 0) * 2, SeedOptimizer.defaultCompactness(segmenter, bedPx));
+        segmentOptions = { ...segmentOptions, compactness };
+      }
+      previousOversized = oversized.length;
+
+      current = this.split(current, labels, width, height, oversized.map(t => regions.get(t.label)!), options);
+      rounds++;
+    }
+  }
+
+  /** Size of every region in mm and whether it fits the bed. */
+  static measure(labels: Int32Array, width: number, height: number, regions: Map<number, RegionInfo>, options: BedFitOptions): TileFit[] {
+    const res = options.resolution;
+    const W = options.bedWidth, H = options.bedHeight;
+
+    if (!options.rotated) {
+      return Array.from(regions.values()).map(r => {
+        const size = RegionStats.size(r);
+        const w = size.width * res, h = size.height * res;
+        return { label: r.label, width: w, height: h, angle: 0, fits: w <= W && h <= H };
+      });
+    }
+
+    return Array.from(this.boundaryCorners(labels, width, height, res).entries()).map(([label, points]) => {
+      const fit = TileOrientation.fit(points, W, H);
+      return { label, width: fit.width, height: fit.height, angle: fit.angle, fits: fit.fits };
+    });
+  }
+
+  /**
+   * Corners (mm) of the boundary pixels of each region: same convex hull as the whole region.
+   */
+  private static boundaryCorners(labels: Int32Array, width: number, height: number, resolution: number): Map<number, Point2D[]> {
+    const corners = new Map<number, Point2D[]>();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const idx = y * width + x;
+        const label = labels[idx];
+        if (label <= 0) continue;
+        const boundary = x === 0 || y === 0 || x === width - 1 || y === height - 1 ||
+          labels[idx - 1] !== label || labels[idx + 1] !== label || labels[idx - width] !== label || labels[idx + width] !== label;
+        if (!boundary) continue;
+
+        let list = corners.get(label);
+        if (!list) corners.set(label, list = []);
+        list.push(
+          { x: x * resolution, y: y * resolution }, { x: (x + 1) * resolution, y: y * resolution },
+          { x: x * resolution, y: (y + 1) * resolution }, { x: (x + 1) * resolution, y: (y + 1) * resolution }
+        );
+      }
+    }
+    return corners;
+  }
+
+  /** Human readable report (one line per tile that does not fit). */
+  static formatReport(result: BedFitResult, options: BedFitOptions): string {
+    const lines = [
+      `${result.tiles.filter(t => !t.fits).length} tile su ${result.tiles.length} non entrano nel piatto ` +
+      `${options.bedWidth}x${options.bedHeight}mm dopo ${result.rounds} tentativi di correzione:`
+    ];
+    for (const t of result.tiles.filter(t => !t.fits)) {
+      const rotation = options.rotated ? ` (ruotato ${t.angle.toFixed(1)}°)` : '';
+      lines.push(`   - Tile ${t.label}: ${t.width.toFixed(1)}x${t.height.toFixed(1)}mm${rotation}`);
+    }
+    lines.push(`   Suggerimenti: aumenta --max-repair, riduci le barriere delle guide o usa un piatto più grande.`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Splits each oversized region at the median of its most overflowing axis:
+   * the old seed moves to one half, a new label is seeded in the other.
+   */
+  private static split(seeds: WatershedSeed[], labels: Int32Array, width: number, height: number, oversized: RegionInfo[], options: BedFitOptions): WatershedSeed[] {
+    const res = options.resolution;
+    let nextLabel = seeds.reduce((m, s) => Math.max(m, s.label), 0) + 1;
+
+    type Split = { region: RegionInfo, vertical: boolean, histogram: Int32Array, cut: number, sums: number[], best: number[], bestIdx: number[] };
+    const splits = new Map<number, Split>();
+    for (const r of oversized) {
+      const size = RegionStats.size(r);
+      const vertical = (size.width * res) / options.bedWidth >= (size.height * res) / options.bedHeight;
+      const length = vertical ? size.width : size.height;
+      splits.set(r.label, {
+        region: r, vertical, histogram: new Int32Array(length), cut: 0,
+        sums: [0, 0, 0, 0, 0, 0], best: [Infinity, Infinity], bestIdx: [-1, -1]
+      });
+    }
+
+    const forEachPixel = (fn: (s: Split, x: number, y: number, idx: number) => void) => {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const idx = y * width + x;
+          const s = splits.get(labels[idx]);
+          if (s) fn(s, x, y, idx);
+        }
+      }
+    };
+    const coord = (s: Split, x: number, y: number) => s.vertical ? x - s.region.minX : y - s.region.minY;
+
+    // 1. Median along the split axis
+    forEachPixel((s, x, y) => s.histogram[coord(s, x, y)]++);
+    for (const s of splits.values()) {
+      let acc = 0;
+      while (s.cut < s.histogram.length - 1 && acc + s.histogram[s.cut] < s.region.count / 2) acc += s.histogram[s.cut++];
+    }
+
+    // 2. Centroid of each half (sums: count, x, y per half)
+    forEachPixel((s, x, y) => {
+      const half = coord(s, x, y) <= s.cut ? 0 : 3;
+      s.sums[half]++; s.sums[half + 1] += x; s.sums[half + 2] += y;
+    });
+
+    // 3. Pixel of each half closest to its centroid
+    forEachPixel((s, x, y, idx) => {
+      const h = coord(s, x, y) <= s.cut ? 0 : 1;
+      const n = s.sums[h * 3];
+      const d = (x - s.sums[h * 3 + 1] / n) ** 2 + (y - s.sums[h * 3 + 2] / n) ** 2;
+      if (d < s.best[h]) { s.best[h] = d; s.bestIdx[h] = idx; }
+    });
+
+    const result: WatershedSeed[] = [];
+    for (const seed of seeds) {
+      const s = splits.get(seed.label);
+      if (!s || s.bestIdx[0] < 0 || s.bestIdx[1] < 0) {
+        result.push(seed);
+        continue;
+      }
+      const [a, b] = s.bestIdx;
+      result.push({ x: a % width, y: Math.floor(a / width), label: seed.label });
+      result.push({ x: b % width, y: Math.floor(b / width), label: nextLabel++ });
+    }
+    return result;
+  }
+}
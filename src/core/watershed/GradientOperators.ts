@@ -0,0 +1,147 @@
+export type GradientOperator = 'maxdiff' | 'sobel' | 'scharr' | 'morphological' | 'log';
+
+export const GRADIENT_OPERATORS: GradientOperator[] = ['maxdiff', 'sobel', 'scharr', 'morphological', 'log'];
+
+export type GradientOptions = {
+  /** Sigma (in pixel) of the Gaussian used by the 'log' operator */
+  sigma?: number;
+};
+
+/**
+ * Gradient operators for the watershed cost map.
+ * All results are in mm of height per pixel (Sobel/Scharr are normalized by their weights),
+ * so barrier penalties keep the same meaning whatever operator is selected.
+ * Pixels outside the grid are clamped to the nearest edge pixel.
+ */
+export class GradientOperators {
+
+  static compute(heightMap: Float32Array, width: number, height: number, operator: GradientOperator, options: GradientOptions = {}): Float32Array {
+    switch (operator) {
+      case 'maxdiff': return this.maxDiff(heightMap, width, height);
+      case 'sobel': return this.derivative(heightMap, width, height, 1, 2);
+      case 'scharr': return this.derivative(heightMap, width, height, 3, 10);
+      case 'morphological': return this.morphological(heightMap, width, height);
+      case 'log': return this.laplacianOfGaussian(heightMap, width, height, options.sigma ?? 1);
+      default:
+        throw new Error(`Operatore gradiente sconosciuto: "${operator}" (disponibili: ${GRADIENT_OPERATORS.join(', ')})`);
+    }
+  }
+
+  /** Max absolute difference with the 4 neighbors (original operator). */
+  private static maxDiff(src: Float32Array, width: number, height: number): Float32Array {
+    const out = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const idx = y * width + x;
+        const val = src[idx];
+        let maxDiff = 0;
+        if (x > 0) maxDiff = Math.max(maxDiff, Math.abs(val - src[idx - 1]));
+        if (x < width - 1) maxDiff = Math.max(maxDiff, Math.abs(val - src[idx + 1]));
+        if (y > 0) maxDiff = Math.max(maxDiff, Math.abs(val - src[idx - width]));
+        if (y < height - 1) maxDiff = Math.max(maxDiff, Math.abs(val - src[idx + width]));
+        out[idx] = maxDiff;
+      }
+    }
+    return out;
+  }
+
+  /**
+   * 3x3 derivative kernels: Sobel (corner 1, center 2) and Scharr (corner 3, center 10).
+   * Magnitude = sqrt(gx² + gy²) / (2 * (2 * corner + center)).
+   */
+  private static derivative(src: Float32Array, width: number, height: number, corner: number, center: number): Float32Array {
+    const out = new Float32Array(width * height);
+    const norm = 2 * (2 * corner + center);
+    for (let y = 0; y < height; y++) {
+      const ym = Math.max(y - 1, 0) * width, y0 = y * width, yp = Math.min(y + 1, height - 1) * width;
+      for (let x = 0; x < width; x++) {
+        const xm = Math.max(x - 1, 0), xp = Math.min(x + 1, width - 1);
+        const gx = corner * (src[ym + xp] - src[ym + xm])
+          + center * (src[y0 + xp] - src[y0 + xm])
+          + corner * (src[yp + xp] - src[yp + xm]);
+        const gy = corner * (src[yp + xm] - src[ym + xm])
+          + center * (src[yp + x] - src[ym + x])
+          + corner * (src[yp + xp] - src[ym + xp]);
+        out[y0 + x] = Math.sqrt(gx * gx + gy * gy) / norm;
+      }
+    }
+    return out;
+  }
+
+  /** Morphological gradient: dilation - erosion over the 3x3 neighborhood. */
+  private static morphological(src: Float32Array, width: number, height: number): Float32Array {
+    const out = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let min = Infinity, max = -Infinity;
+        for (let dy = -1; dy <= 1; dy++) {
+          const row = Math.min(Math.max(y + dy, 0), height - 1) * width;
+          for (let dx = -1; dx <= 1; dx++) {
+            const v = src[row + Math.min(Math.max(x + dx, 0), width - 1)];
+            if (v < min) min = v;
+            if (v > max) max = v;
+          }
+        }
+        out[y * width + x] = max - min;
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Scale-normalized Laplacian of Gaussian: |sigma² * ∇²(G_sigma * f)|.
+   * Responds to creases and ridges of width ~sigma, ignoring uniform slopes.
+   */
+  private static laplacianOfGaussian(src: Float32Array, width: number, height: number, sigma: number): Float32Array {
+    if (!(sigma > 0)) throw new Error(`Sigma del LoG non valido: ${sigma} (deve essere > 0)`);
+
+    const smooth = this.gaussianBlur(src, width, height, sigma);
+    const out = new Float32Array(width * height);
+    const scale = sigma * sigma;
+    for (let y = 0; y < height; y++) {
+      const ym = Math.max(y - 1, 0) * width, y0 = y * width, yp = Math.min(y + 1, height - 1) * width;
+      for (let x = 0; x < width; x++) {
+        const xm = Math.max(x - 1, 0), xp = Math.min(x + 1, width - 1);
+        const laplacian = smooth[y0 + xm] + smooth[y0 + xp] + smooth[ym + x] + smooth[yp + x] - 4 * smooth[y0 + x];
+        out[y0 + x] = Math.abs(laplacian) * scale;
+      }
+    }
+    return out;
+  }
+
+  /** Separable Gaussian blur, kernel radius = ceil(3 sigma). */
+  private static gaussianBlur(src: Float32Array, width: number, height: number, sigma: number): Float32Array {
+    const radius = Math.max(1, Math.ceil(3 * sigma));
+    const kernel = new Float32Array(2 * radius + 1);
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) {
+      kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+      sum += kernel[i + radius];
+    }
+    for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+
+    const tmp = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      for (let x = 0; x < width; x++) {
+        let acc = 0;
+        for (let k = -radius; k <= radius; k++) {
+          acc += kernel[k + radius] * src[row + Math.min(Math.max(x + k, 0), width - 1)];
+        }
+        tmp[row + x] = acc;
+      }
+    }
+
+    const out = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let acc = 0;
+        for (let k = -radius; k <= radius; k++) {
+          acc += kernel[k + radius] * tmp[Math.min(Math.max(y + k, 0), height - 1) * width + x];
+        }
+        out[y * width + x] = acc;
+      }
+    }
+    return out;
+  }
+}
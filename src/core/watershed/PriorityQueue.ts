@@ -1,30 +1,99 @@
-export class PriorityQueue<T> {
-  private items: { element: T, priority: number }[];
+const INITIAL_CAPACITY = 1024;
 
-  constructor() {
-    this.items = [];
+/**
+ * Binary min-heap of indices (pixels) backed by typed arrays.
+ * Equal priorities leave in insertion order (FIFO) thanks to a sequence counter:
+ * flooding stays deterministic and identical to the old list-based queue.
+ */
+export class PriorityQueue {
+  private elements: Int32Array;
+  private priorities: Float64Array;
+  private sequence: Float64Array;
+  private length = 0;
+  private counter = 0;
+
+  constructor(capacity: number = INITIAL_CAPACITY) {
+    const size = Math.max(1, capacity);
+    this.elements = new Int32Array(size);
+    this.priorities = new Float64Array(size);
+    this.sequence = new Float64Array(size);
   }
 
-  enqueue(element: T, priority: number) {
-    const queueElement = { element, priority };
-    let added = false;
-    for (let i = 0; i < this.items.length; i++) {
-      if (queueElement.priority < this.items[i].priority) {
-        this.items.splice(i, 0, queueElement);
-        added = true;
-        break;
-      }
+  get size(): number {
+    return this.length;
+  }
+
+  enqueue(element: number, priority: number) {
+    if (this.length === this.elements.length) this.grow();
+
+    // Sift-up: move parents down until the new entry finds its place
+    const seq = this.counter++;
+    let i = this.length++;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(priority, seq, this.priorities[parent], this.sequence[parent])) break;
+      this.move(parent, i);
+      i = parent;
     }
-    if (!added) {
-      this.items.push(queueElement);
+    this.elements[i] = element;
+    this.priorities[i] = priority;
+    this.sequence[i] = seq;
+  }
+
+  dequeue(): number | undefined {
+    if (this.length === 0) return undefined;
+    const top = this.elements[0];
+
+    // Sift-down of the last entry starting from the root
+    const last = --this.length;
+    const element = this.elements[last];
+    const priority = this.priorities[last];
+    const seq = this.sequence[last];
+    let i = 0;
+    while (true) {
+      let child = 2 * i + 1;
+      if (child >= last) break;
+      const right = child + 1;
+      if (right < last && this.less(this.priorities[right], this.sequence[right], this.priorities[child], this.sequence[child])) {
+        child = right;
+      }
+      if (!this.less(this.priorities[child], this.sequence[child], priority, seq)) break;
+      this.move(child, i);
+      i = child;
     }
+    this.elements[i] = element;
+    this.priorities[i] = priority;
+    this.sequence[i] = seq;
+
+    return top;
   }
 
-  dequeue(): T | undefined {
-    return this.items.shift()?.element;
+  /** Priority of the head element (undefined when empty). */
+  peekPriority(): number | undefined {
+    return this.length > 0 ? this.priorities[0] : undefined;
   }
 
   isEmpty(): boolean {
-    return this.items.length === 0;
+    return this.length === 0;
+  }
+
+  private less(pa: number, sa: number, pb: number, sb: number): boolean {
+    return pa < pb || (pa === pb && sa < sb);
+  }
+
+  private move(from: number, to: number) {
+    this.elements[to] = this.elements[from];
+    this.priorities[to] = this.priorities[from];
+    this.sequence[to] = this.sequence[from];
+  }
+
+  private grow() {
+    const capacity = this.elements.length * 2;
+    const elements = new Int32Array(capacity); elements.set(this.elements);
+    const priorities = new Float64Array(capacity); priorities.set(this.priorities);
+    const sequence = new Float64Array(capacity); sequence.set(this.sequence);
+    this.elements = elements;
+    this.priorities = priorities;
+    this.sequence = sequence;
   }
 }
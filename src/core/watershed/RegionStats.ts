@@ -0,0 +1,52 @@
+export type RegionInfo = {
+  label: number;
+  /** Number of pixels */
+  count: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  /** Centroid (pixels) */
+  cx: number;
+  cy: number;
+};
+
+/**
+ * Per-label statistics of a label map (bounding box and centroid, in pixels).
+ * Labels <= 0 are ignored.
+ */
+export class RegionStats {
+
+  static compute(labels: Int32Array, width: number, height: number): Map<number, RegionInfo> {
+    const regions = new Map<number, RegionInfo>();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const label = labels[y * width + x];
+        if (label <= 0) continue;
+
+        let r = regions.get(label);
+        if (!r) {
+          r = { label, count: 0, minX: x, maxX: x, minY: y, maxY: y, cx: 0, cy: 0 };
+          regions.set(label, r);
+        }
+        r.count++;
+        r.cx += x; r.cy += y;
+        if (x < r.minX) r.minX = x;
+        if (x > r.maxX) r.maxX = x;
+        if (y < r.minY) r.minY = y;
+        if (y > r.maxY) r.maxY = y;
+      }
+    }
+
+    for (const r of regions.values()) {
+      r.cx /= r.count;
+      r.cy /= r.count;
+    }
+    return regions;
+  }
+
+  /** Bounding box size in pixels (inclusive). */
+  static size(r: RegionInfo): { width: number, height: number } {
+    return { width: r.maxX - r.minX + 1, height: r.maxY - r.minY + 1 };
+  }
+}
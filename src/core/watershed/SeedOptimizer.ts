@@ -0,0 +1,165 @@
+import { SegmentOptions, WatershedSeed, WatershedSegmenter } from './WatershedSegmenter';
+import { RegionInfo, RegionStats } from './RegionStats';
+
+export type SeedMode = 'grid' | 'basin' | 'lloyd';
+
+export const SEED_MODES: SeedMode[] = ['grid', 'basin', 'lloyd'];
+
+// Margin (fraction of the cell per side) excluded from the basin search
+const CELL_MARGIN = 0.2;
+
+export type LloydResult = {
+  seeds: WatershedSeed[];
+  labels: Int32Array;
+  iterations: number;
+  /** true if every region fits the bed */
+  fits: boolean;
+  /** Regions still larger than the bed after the last iteration */
+  oversized: RegionInfo[];
+};
+
+/**
+ * Seed placement for the watershed tiles.
+ * - basin: inside each grid cell, moves the seed to the flattest area (lowest mean gradient),
+ *   so a region never starts on a high-detail feature.
+ * - lloyd: repeatedly segments and moves each seed to the centroid of its region,
+ *   until every region fits the bed (or the iterations run out).
+ *   Plain watershed regions are not Voronoi-like (a seed in a wide flat area floods it all),
+ *   so the relaxation uses the compact watershed: centroids then converge like a CVT,
+ *   while ridges still bend the boundaries.
+ */
+export class SeedOptimizer {
+
+  /**
+   * @param cells grid cell of each seed, in pixels (same order as `seeds`)
+   */
+  static snapToBasins(
+    seeds: WatershedSeed[], cells: { x0: number, y0: number, x1: number, y1: number }[],
+    gradient: Float32Array, width: number, height: number
+  ): WatershedSeed[] {
+    // Integral image: mean gradient of any window in O(1)
+    const w1 = width + 1;
+    const integral = new Float64Array(w1 * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += gradient[y * width + x];
+        integral[(y + 1) * w1 + x + 1] = integral[y * w1 + x + 1] + rowSum;
+      }
+    }
+    const windowMean = (x: number, y: number, r: number) => {
+      const x0 = Math.max(x - r, 0), y0 = Math.max(y - r, 0);
+      const x1 = Math.min(x + r + 1, width), y1 = Math.min(y + r + 1, height);
+      const sum = integral[y1 * w1 + x1] - integral[y0 * w1 + x1] - integral[y1 * w1 + x0] + integral[y0 * w1 + x0];
+      return sum / ((x1 - x0) * (y1 - y0));
+    };
+
+    return seeds.map((seed, i) => {
+      // Only the central part of the cell: a seed near the border would end up on the cut
+      const cell = cells[i];
+      const mx = (cell.x1 - cell.x0) * CELL_MARGIN, my = (cell.y1 - cell.y0) * CELL_MARGIN;
+      const cx0 = Math.max(0, Math.floor(cell.x0 + mx)), cy0 = Math.max(0, Math.floor(cell.y0 + my));
+      const cx1 = Math.min(width - 1, Math.ceil(cell.x1 - mx)), cy1 = Math.min(height - 1, Math.ceil(cell.y1 - my));
+      // Window ~1/20 of the cell: ignores single noisy pixels
+      const r = Math.max(1, Math.round(Math.min(cx1 - cx0, cy1 - cy0) / 20));
+      const diag = Math.hypot(cx1 - cx0, cy1 - cy0) || 1;
+
+      let best = seed;
+      let bestScore = Infinity;
+      for (let y = cy0; y <= cy1; y++) {
+        for (let x = cx0; x <= cx1; x++) {
+          // On equal gradient, the point closest to the original center wins
+          const score = windowMean(x, y, r) * (1 + 1e-3 * Math.hypot(x - seed.x, y - seed.y) / diag);
+          if (score < bestScore) {
+            bestScore = score;
+            best = { x, y, label: seed.label };
+          }
+        }
+      }
+      return best;
+    });
+  }
+
+  /**
+   * Lloyd relaxation on the watershed regions.
+   * @param bed bed size in pixels
+   */
+  static relax(
+    segmenter: WatershedSegmenter, seeds: WatershedSeed[], width: number, height: number,
+    bed: { width: number, height: number }, maxIterations: number, options: SegmentOptions = {}
+  ): LloydResult {
+    let current = seeds.map(s => ({ ...s }));
+    let iterations = 0;
+
+    const segmentOptions: SegmentOptions = {
+      ...options,
+      compactness: options.compactness ?? this.defaultCompactness(segmenter, bed)
+    };
+
+    while (true) {
+      const labels = segmenter.segment(current, segmentOptions);
+      const regions = RegionStats.compute(labels, width, height);
+      const oversized = Array.from(regions.values()).filter(r => {
+        const size = RegionStats.size(r);
+        return size.width > bed.width || size.height > bed.height;
+      });
+
+      if (oversized.length === 0 || iterations >= maxIterations) {
+        return { seeds: current, labels, iterations, fits: oversized.length === 0, oversized };
+      }
+
+      const moved = this.moveToCentroids(current, labels, regions, width, height);
+      iterations++;
+      if (!moved) {
+        return { seeds: current, labels, iterations, fits: false, oversized };
+      }
+    }
+  }
+
+  /**
+   * Compactness used by the relaxation: at a distance equal to the shorter bed side
+   * a region pays as much as the strongest gradient.
+   * @param bed bed size in pixels
+   */
+  static defaultCompactness(segmenter: WatershedSegmenter, bed: { width: number, height: number }): number {
+    const gradient = segmenter.getGradientMap();
+    let maxGradient = 0;
+    for (let i = 0; i < gradient.length; i++) if (gradient[i] > maxGradient) maxGradient = gradient[i];
+    return (maxGradient || 1) / Math.max(1, Math.min(bed.width, bed.height));
+  }
+
+  /**
+   * Moves each seed to the pixel of its region closest to the region centroid
+   * (the centroid itself may fall outside a non-convex region).
+   * @returns false when no seed moved (converged)
+   */
+  private static moveToCentroids(seeds: WatershedSeed[], labels: Int32Array, regions: Map<number, RegionInfo>, width: number, height: number): boolean {
+    const bestDist = new Map<number, number>();
+    const bestIdx = new Map<number, number>();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const idx = y * width + x;
+        const r = regions.get(labels[idx]);
+        if (!r) continue;
+        const d = (x - r.cx) * (x - r.cx) + (y - r.cy) * (y - r.cy);
+        if (d < (bestDist.get(r.label) ?? Infinity)) {
+          bestDist.set(r.label, d);
+          bestIdx.set(r.label, idx);
+        }
+      }
+    }
+
+    let moved = false;
+    for (const seed of seeds) {
+      const idx = bestIdx.get(seed.label);
+      if (idx === undefined) continue;
+      const x = idx % width, y = (idx - x) / width;
+      if (x !== seed.x || y !== seed.y) {
+        seed.x = x;
+        seed.y = y;
+        moved = true;
+      }
+    }
+    return moved;
+  }
+}
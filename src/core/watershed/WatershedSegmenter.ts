@@ -1,4 +1,27 @@
 import { PriorityQueue } from './PriorityQueue';
+import { GradientOperator, GradientOperators } from './GradientOperators';
+import { LayerHeights } from '../LayerHeights';
+
+export type WatershedOptions = {
+  /** Operator for the cost map (default 'maxdiff') */
+  gradient?: GradientOperator;
+  /** Gaussian sigma in pixels, used by the 'log' operator */
+  sigma?: number;
+  /** Flooding neighborhood: 8 avoids staircase boundaries along diagonals (default 4) */
+  connectivity?: 4 | 8;
+};
+
+export type WatershedSeed = { x: number, y: number, label: number };
+
+export type SegmentOptions = {
+  /** Mark pixels where different basins meet (see getWatershedLines) */
+  watershedLines?: boolean;
+  /**
+   * Compact watershed: adds `compactness * distance from the seed` (pixels) to the cost,
+   * so regions stay roughly Voronoi-shaped. 0 = classic watershed (default).
+   */
+  compactness?: number;
+};
 
 export class WatershedSegmenter {
   private width: number;
@@ -6,14 +29,22 @@ export class WatershedSegmenter {
   private heightMap: Float32Array;
   private labels: Int32Array;
   private gradientMap: Float32Array;
+  private watershedLines: Uint8Array | null = null;
+  private connectivity: 4 | 8;
+  private keepTogether: Uint8Array[] = [];
+  private noCut: Uint8Array[] = [];
+  // Locked regions (keep-together + no-cut): 1-based group per pixel, pixel list per group
+  private lockGroup: Int32Array | null = null;
+  private lockPixels: Int32Array[] = [];
 
-  constructor(width: number, height: number, heightMap: Float32Array) {
+  constructor(width: number, height: number, heightMap: Float32Array, options: WatershedOptions = {}) {
     this.width = width;
     this.height = height;
     this.heightMap = heightMap;
     this.labels = new Int32Array(width * height).fill(0);
-    this.gradientMap = new Float32Array(width * height);
-    this.computeGradient();
+    this.connectivity = options.connectivity ?? 4;
+    // High gradient = Edges/Creases (Costly to cross)
+    this.gradientMap = GradientOperators.compute(heightMap, width, height, options.gradient ?? 'maxdiff', { sigma: options.sigma });
   }
 
   public getGradientMap(): Float32Array {
@@ -21,34 +52,19 @@ export class WatershedSegmenter {
   }
 
   /**
-   * Compute gradient magnitude (Sobel-like or simple difference)
-   * High gradient = Edges/Creases (Costly to cross)
+   * Hidden seams: raise the cost map where the relief crosses a filament color change,
+   * so basins tend to meet (and cuts to run) along color boundaries.
+   * @param heights absolute Z of the layer changes (bounds.minZ + layer height), sorted
+   * @param weight 0..1, fraction of the strongest gradient added on the isolines
    */
-  private computeGradient() {
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        const idx = y * this.width + x;
-
-        // Simple morphological gradient (max - min in 3x3)
-        // Or just neighbor diffs. Let's do simple max neighbor diff.
-        let maxDiff = 0;
-        const val = this.heightMap[idx];
-
-        // Check 4 neighbors
-        const neighbors = [
-          { x: x - 1, y: y }, { x: x + 1, y: y },
-          { x: x, y: y - 1 }, { x: x, y: y + 1 }
-        ];
-
-        for (const n of neighbors) {
-          if (n.x >= 0 && n.x < this.width && n.y >= 0 && n.y < this.height) {
-            const nIdx = n.y * this.width + n.x;
-            const diff = Math.abs(val - this.heightMap[nIdx]);
-            if (diff > maxDiff) maxDiff = diff;
-          }
-        }
-        this.gradientMap[idx] = maxDiff;
-      }
+  public applyLayerTransitions(heights: number[], weight: number) {
+    const isolines = LayerHeights.isolineMask(this.heightMap, this.width, this.height, heights);
+    let maxGradient = 0;
+    for (let i = 0; i < this.gradientMap.length; i++) if (this.gradientMap[i] > maxGradient) maxGradient = this.gradientMap[i];
+    const boost = weight * (maxGradient || 1);
+
+    for (let i = 0; i < isolines.length; i++) {
+      if (isolines[i]) this.gradientMap[i] += boost;
     }
   }
 
@@ -56,77 +72,210 @@ export class WatershedSegmenter {
    * Apply constraints (e.g. SVG paths) to the gradient map.
    * These areas become "High Walls" that are hard to cross.
    */
-  public applyBarriers(barrierMask: boolean[][], penalty: number = 1000) {
+  public applyBarriers(barrierMask: Uint8Array, penalty: number = 1000) {
     // console.log("Applying barriers to gradient map...");
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        const idx = y * this.width + x;
-        if (barrierMask[y][x]) {
-          this.gradientMap[idx] += penalty;
-        }
+    for (let idx = 0; idx < this.gradientMap.length; idx++) {
+      if (barrierMask[idx]) {
+        this.gradientMap[idx] += penalty;
+      }
+    }
+  }
+
+  /**
+   * Soft barrier: instead of a flat wall over the whole corridor, a ridge that peaks on the guide line
+   * and fades with the distance (gaussian, sigma = falloff). Basins meet near the line where the relief
+   * is neutral, but a strong crease nearby can still win.
+   * @param distance distance (px) from the guide line, Infinity far away
+   */
+  public applySoftBarrier(distance: Float32Array, falloff: number, penalty: number = 1000) {
+    const s2 = 2 * falloff * falloff;
+    for (let idx = 0; idx < this.gradientMap.length; idx++) {
+      const d = distance[idx];
+      if (d !== Infinity) this.gradientMap[idx] += penalty * Math.exp(-(d * d) / s2);
+    }
+  }
+
+  /**
+   * Keep-together areas: all the pixels of a mask end up with the same label,
+   * the one of the first basin that reaches the area (or of a seed placed inside it).
+   * Overlapping masks are merged into a single area.
+   */
+  public setLockedRegions(masks: Uint8Array[]) {
+    this.keepTogether = masks;
+    this.buildLocks();
+  }
+
+  /**
+   * No-cut areas: no basin boundary may cross them. A boundary is a cut, so each area
+   * is locked to a single label like the keep-together areas (see setLockedRegions).
+   */
+  public applyNoCut(masks: Uint8Array[]) {
+    this.noCut = masks;
+    this.buildLocks();
+  }
+
+  private buildLocks() {
+    const masks = [...this.keepTogether, ...this.noCut];
+    if (masks.length === 0) {
+      this.lockGroup = null;
+      this.lockPixels = [];
+      return;
+    }
+
+    // Union-find over the masks, joined where they overlap
+    const parent = masks.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+    const owner = new Int32Array(this.width * this.height).fill(-1);
+    for (let m = 0; m < masks.length; m++) {
+      for (let idx = 0; idx < owner.length; idx++) {
+        if (!masks[m][idx]) continue;
+        if (owner[idx] >= 0) parent[find(m)] = find(owner[idx]);
+        else owner[idx] = m;
+      }
+    }
+
+    const groupOfRoot = new Map<number, number>();
+    const lists: number[][] = [];
+    this.lockGroup = new Int32Array(this.width * this.height);
+    for (let idx = 0; idx < owner.length; idx++) {
+      if (owner[idx] < 0) continue;
+      const root = find(owner[idx]);
+      let g = groupOfRoot.get(root);
+      if (g === undefined) {
+        g = lists.length + 1;
+        groupOfRoot.set(root, g);
+        lists.push([]);
       }
+      this.lockGroup[idx] = g;
+      lists[g - 1].push(idx);
     }
+    this.lockPixels = lists.map(l => Int32Array.from(l));
+  }
+
+  /**
+   * Pixels where two basins meet (1 = watershed line).
+   * Available only after `segment(seeds, { watershedLines: true })`.
+   */
+  public getWatershedLines(): Uint8Array | null {
+    return this.watershedLines;
   }
 
   /**
    * Main Watershed Algorithm (Meyer's Flooding)
+   * - Priority of a pixel = max(priority of the pixel that reached it, its gradient):
+   *   the flood level never decreases, so a basin can only cross a ridge once the ridge level is reached.
+   * - Labels are assigned at dequeue time, looking at the already labeled neighbors.
+   * - With `watershedLines`, pixels touched by two different basins are marked in `getWatershedLines()`.
+   *   The label map stays complete (the line pixel keeps the label of the basin that reached it first),
+   *   so tracing works the same with or without lines.
+   * - Locked regions (see setLockedRegions) are claimed as a whole by the first basin that labels one of their pixels.
    * @param seeds Array of {x, y, label}
    */
-  public segment(seeds: { x: number, y: number, label: number }[]): Int32Array {
-    const pq = new PriorityQueue<number>(); // Stores Pixel Indices
+  public segment(seeds: WatershedSeed[], options: SegmentOptions = {}): Int32Array {
+    const w = this.width, h = this.height;
+    const pq = new PriorityQueue(); // Stores Pixel Indices
+    const queued = new Uint8Array(w * h);
+    // Label of the pixel that enqueued each pixel (fallback when basins meet)
+    const reachedBy = new Int32Array(w * h);
+    this.watershedLines = options.watershedLines ? new Uint8Array(w * h) : null;
+    this.labels.fill(0);
+    const compactness = options.compactness ?? 0;
+    const seedX = new Map<number, number>();
+    const seedY = new Map<number, number>();
+    const lockGroup = this.lockGroup;
+    const claimed = new Uint8Array(this.lockPixels.length);
 
-    // 1. Initialize with Seeds
+    // Gives the whole locked area of `idx` to `label`, flooding on from all its pixels
+    const claim = (idx: number, label: number, priority: number) => {
+      const g = lockGroup![idx] - 1;
+      claimed[g] = 1;
+      for (const p of this.lockPixels[g]) {
+        this.labels[p] = label;
+        if (queued[p]) continue;
+        queued[p] = 1;
+        reachedBy[p] = label;
+        pq.enqueue(p, priority);
+      }
+    };
+
+    // 1. Initialize with Seeds (flood level 0)
     for (const seed of seeds) {
-      const idx = seed.y * this.width + seed.x;
-      if (idx >= 0 && idx < this.labels.length) {
-        this.labels[idx] = seed.label;
-        pq.enqueue(idx, 0); // Priority 0 (Highest)
+      if (seed.x < 0 || seed.x >= w || seed.y < 0 || seed.y >= h) continue;
+      const idx = seed.y * w + seed.x;
+      // A second seed inside an already claimed area would get no pixels
+      if (lockGroup && lockGroup[idx] && claimed[lockGroup[idx] - 1]) continue;
+      seedX.set(seed.label, seed.x);
+      seedY.set(seed.label, seed.y);
+      this.labels[idx] = seed.label;
+      reachedBy[idx] = seed.label;
+      if (!queued[idx]) {
+        queued[idx] = 1;
+        pq.enqueue(idx, 0);
       }
+      if (lockGroup && lockGroup[idx]) claim(idx, seed.label, 0);
     }
 
     // 2. Flood
-    const neighborsOffsets = [-1, 1, -this.width, this.width]; // Left, Right, Up, Down
-
+    const neighbors = new Int32Array(8);
     while (!pq.isEmpty()) {
-      const currIdx = pq.dequeue();
-      if (currIdx === undefined) break;
+      const priority = pq.peekPriority()!;
+      const currIdx = pq.dequeue()!;
+      const count = this.collectNeighbors(currIdx, neighbors);
 
-      const currLabel = this.labels[currIdx];
+      if (this.labels[currIdx] === 0) {
+        let label = 0;
+        let conflict = false;
+        for (let k = 0; k < count; k++) {
+          const l = this.labels[neighbors[k]];
+          if (l === 0) continue;
+          if (label === 0) label = l;
+          else if (l !== label) conflict = true;
+        }
+        if (conflict) {
+          label = reachedBy[currIdx];
+          if (this.watershedLines) this.watershedLines[currIdx] = 1;
+        }
+        this.labels[currIdx] = label;
+        if (lockGroup && lockGroup[currIdx] && !claimed[lockGroup[currIdx] - 1]) claim(currIdx, label, priority);
+      }
 
-      // Visit neighbors
-      for (const offset of neighborsOffsets) {
-        const nIdx = currIdx + offset;
-
-        // Bounds check (rough, need careful edge handling for left/right wrap)
-        // Wrap check: if jumping rows, x should be consistent? 
-        // Simple 1D array logic is risky for wrap-around.
-        // Let's do explicit X/Y check for safety.
-        const cx = currIdx % this.width;
-        const cy = Math.floor(currIdx / this.width);
-
-        // Re-calculate neighbor coord
-        let nx = cx, ny = cy;
-        if (offset === -1) nx--;
-        else if (offset === 1) nx++;
-        else if (offset === -this.width) ny--;
-        else if (offset === this.width) ny++;
-
-        if (nx < 0 || nx >= this.width || ny < 0 || ny >= this.height) continue;
-
-        const neighborRealIdx = ny * this.width + nx;
-
-        if (this.labels[neighborRealIdx] === 0) {
-          // Unlabeled: Claim it
-          this.labels[neighborRealIdx] = currLabel;
-          // Enqueue with cost = Gradient Magnitude
-          // Meyer's var: cost = max(current_prio, gradient(neighbor)) ?
-          // Simple flooding: cost = gradient(neighbor)
-          const cost = this.gradientMap[neighborRealIdx];
-          pq.enqueue(neighborRealIdx, cost);
+      // Enqueue unvisited neighbors at the (non decreasing) flood level
+      const currLabel = this.labels[currIdx];
+      const sx = seedX.get(currLabel) ?? 0, sy = seedY.get(currLabel) ?? 0;
+      for (let k = 0; k < count; k++) {
+        const nIdx = neighbors[k];
+        if (queued[nIdx]) continue;
+        queued[nIdx] = 1;
+        reachedBy[nIdx] = currLabel;
+        let cost = this.gradientMap[nIdx];
+        if (compactness > 0) {
+          const nx = nIdx % w;
+          cost += compactness * Math.hypot(nx - sx, (nIdx - nx) / w - sy);
         }
+        pq.enqueue(nIdx, Math.max(priority, cost));
       }
     }
 
     return this.labels;
   }
+
+  /** 4- or 8-connected neighbors of `idx` inside the grid (see `connectivity`). */
+  private collectNeighbors(idx: number, out: Int32Array): number {
+    const w = this.width;
+    const x = idx % w;
+    const y = (idx - x) / w;
+    const left = x > 0, right = x < w - 1, up = y > 0, down = y < this.height - 1;
+    let count = 0;
+    if (left) out[count++] = idx - 1;
+    if (right) out[count++] = idx + 1;
+    if (up) out[count++] = idx - w;
+    if (down) out[count++] = idx + w;
+    if (this.connectivity === 8) {
+      if (up && left) out[count++] = idx - w - 1;
+      if (up && right) out[count++] = idx - w + 1;
+      if (down && left) out[count++] = idx + w - 1;
+      if (down && right) out[count++] = idx + w + 1;
+    }
+    return count;
+  }
 }
@@ -1,10 +1,24 @@
 import { Command } from 'commander';
-import { HeightMapper } from './core/HeightMapper';
-import { GuideParser } from './core/GuideParser';
-import { SvgExporter } from './utils/SvgExporter';
+import { HeightMapper, HeightMapData } from './core/HeightMapper';
+import { MeshReaders } from './core/mesh/MeshReaders';
+import { MeshReader } from './core/mesh/MeshReader';
+import { HeightMapCache } from './core/HeightMapCache';
+import { HeightMapImage } from './core/HeightMapImage';
+import { LayerHeights } from './core/LayerHeights';
+import { GuideParser, GuideSet, SoftCorridor } from './core/GuideParser';
+import { MaskRasterizer } from './core/MaskRasterizer';
+import { SvgPathParser } from './core/SvgPathParser';
+import { Layout, LayoutGenerator, LayoutKind } from './core/LayoutGenerator';
+import { LAYOUT_MODES, LayoutMode, LayoutPlanner } from './core/LayoutPlanner';
+import { CutTile, ExportedTile, SvgExporter } from './utils/SvgExporter';
 import { SvgBuilder } from './utils/SvgBuilder';
+import { GuideTemplate } from './utils/GuideTemplate';
 import { ScadGenerator } from './utils/ScadGenerator';
-import { WatershedSegmenter } from './core/watershed/WatershedSegmenter';
+import { WatershedSeed, WatershedSegmenter } from './core/watershed/WatershedSegmenter';
+import { GRADIENT_OPERATORS, GradientOperator } from './core/watershed/GradientOperators';
+import { SEED_MODES, SeedMode, SeedOptimizer } from './core/watershed/SeedOptimizer';
+import { RegionStats } from './core/watershed/RegionStats';
+import { BedFitOptions, BedFitter } from './core/watershed/BedFitter';
 import { BoundaryTracer } from './core/watershed/BoundaryTracer';
 import { TopologyTracer } from './core/watershed/TopologyTracer';
 import path from 'path';
@@ -16,29 +30,205 @@ program
     .name('hueslicer')
     .description('CLI tool per generare layout SVG da STL HueForge')
     .version('1.0.0')
-    .argument('<file>', 'File STL di input')
+    // Le opzioni del comando principale non catturano quelle omonime di `template`
+    .enablePositionalOptions()
+    .argument('<file>', 'File mesh di input (STL binario/ASCII letto in streaming; 3MF e OBJ caricati interi in memoria) o HeightMap 16-bit (PNG, TIFF)')
     .option('-g, --guide <path>', 'File SVG con i percorsi guida (Opzionale: se mancante, usa auto-tiling)')
     .option('-w, --width <number>', 'Larghezza piatto (mm)', '200')
     .option('-h, --height <number>', 'Altezza piatto (mm)', '200')
+    .option('--bed-margin <number>', 'Margine non stampabile su ogni lato del piatto (mm)', '0')
     .option('-r, --resolution <number>', 'Risoluzione HeightMap (mm/pixel), default 0.5', '0.5')
     .option('-o, --out <path>', 'Cartella di output', 'output')
+    .option('-j, --jobs <number>', 'Worker paralleli per la rasterizzazione della HeightMap', '1')
+    .option('--no-cache', 'Ignora la cache della HeightMap (<out>/.cache) e la rigenera')
+    .option('--export-heightmap <path>', 'Salva la HeightMap come immagine 16-bit in scala di grigi (.png, .tif)')
+    .option('--curve-tolerance <number>', 'Scarto massimo (px) nell\'approssimare curve e archi delle guide', '0.25')
     .option('--search-width <number>', 'Larghezza ricerca per auto-tiling (px)', '100')
+    .option('--layout <kind>', `Schema dell'auto-tiling (${LAYOUT_MODES.join(', ')}; auto = meno tile e tagli meno costosi)`, 'grid')
+    .option('--soft-corridors', 'Corridoi delle guide morbidi: il costo cresce con la distanza dalla linea invece di vietare l\'esterno', false)
     .option('-v, --verbose', 'Attiva log di debug', false)
     .option('--preview', 'Genera solo anteprima SVG, non esporta i singoli tile', false)
     .option('--preview-only', 'Genera solo anteprima SVG, non esporta i singoli tile', false)
     .option('--generate-stls', 'Usa OpenSCAD per generare gli STL finali dei tile', false)
     .option('--openscad <path>', 'Percorso eseguibile OpenSCAD', 'openscad')
+    .option('--gradient <operator>', `Operatore gradiente per il Watershed (${GRADIENT_OPERATORS.join(', ')})`, 'maxdiff')
+    .option('--sigma <number>', "Sigma (pixel) della gaussiana per l'operatore 'log'", '1')
+    .option('--connectivity <number>', 'Connettività del flooding Watershed (4 o 8)', '4')
+    .option('--layers <file|list>', 'Quote dei cambi colore in mm: file HueForge/JSON o lista (es. "0.48,0.88,1.28")')
+    .option('--layer-weight <number>', 'Preferenza per i tagli lungo i cambi colore (0..1)', '0.5')
+    .option('--seeds <mode>', `Posizionamento semi Watershed (${SEED_MODES.join(', ')})`, 'grid')
+    .option('--lloyd-iterations <number>', "Iterazioni massime per --seeds lloyd", '10')
+    .option('--max-repair <number>', 'Tentativi di suddivisione dei tile più grandi del piatto (0 = solo verifica)', '5')
+    .option('--allow-rotation', 'Verifica i tile sul rettangolo ruotato di area minima invece della bounding box', false)
+    .option('--watershed-lines', "Evidenzia nell'anteprima i pixel dove si incontrano i bacini (solo Watershed)", false)
     .option('--legacy', 'Usa il metodo legacy (Seam Carving Grid) invece del nuovo Watershed', false)
     .action(async (file, options) => {
         await run(file, options);
     });
 
+program
+    .command('template')
+    .description('Crea un file guida SVG (in mm) con la HeightMap come sfondo e i layer vuoti pronti da disegnare')
+    .argument('<file>', 'File mesh di input (STL binario/ASCII, 3MF, OBJ) o HeightMap 16-bit (PNG, TIFF)')
+    .option('-o, --out <path>', 'File SVG di output (default: <nome>_guide.svg accanto al file di input)')
+    .option('-r, --resolution <number>', 'Risoluzione HeightMap (mm/pixel)', '0.5')
+    .option('-j, --jobs <number>', 'Worker paralleli per la rasterizzazione della HeightMap', '1')
+    .option('--cache-dir <path>', 'Cartella della cache HeightMap (la stessa del comando principale: <out>/.cache)', path.join('output', '.cache'))
+    .option('--no-cache', 'Ignora la cache della HeightMap (--cache-dir) e la rigenera')
+    .option('--auto-lines', 'Disegna le linee dell\'auto-tiling come punto di partenza modificabile', false)
+    .option('-w, --width <number>', 'Larghezza piatto (mm), per --auto-lines', '200')
+    .option('-h, --height <number>', 'Altezza piatto (mm), per --auto-lines', '200')
+    .option('--bed-margin <number>', 'Margine non stampabile su ogni lato del piatto (mm), per --auto-lines', '0')
+    .option('--search-width <number>', 'Spessore delle linee di --auto-lines (px HeightMap)', '100')
+    .option('--layout <kind>', `Schema delle linee di --auto-lines (${LAYOUT_MODES.join(', ')})`, 'grid')
+    .action(async (file, options) => {
+        await template(file, options);
+    });
+
+// Corridoi dell'auto-tiling: i tagli del layout (mm) diventano guide in pixel HeightMap
+function layoutGuides(
+    layout: Layout, mapData: HeightMapData, widthMm: number, heightMm: number, searchWidth: number, soft: boolean
+): Pick<GuideSet, 'verticals' | 'horizontals' | 'verticalSoft' | 'horizontalSoft' | 'verticalPaths' | 'horizontalPaths'> {
+    const toPixels = (line: { x: number, y: number }[]) => line.map(p => ({ x: p.x / widthMm * mapData.width, y: p.y / heightMm * mapData.height }));
+    const guides = (lines: { x: number, y: number }[][]) => lines.map(line => SvgPathParser.fromPoints(toPixels(line), false));
+    const rasterize = (paths: string[]) => paths.map(d => GuideParser.rasterizePath(d, searchWidth, mapData.width, mapData.height));
+    const corridors = (paths: string[]) => paths.map(d => soft ? GuideParser.softCorridor(d, searchWidth / 2, mapData.width, mapData.height) : null);
+    const verticals = guides(layout.verticals), horizontals = guides(layout.horizontals);
+    return {
+        verticals: rasterize(verticals), horizontals: rasterize(horizontals),
+        verticalSoft: corridors(verticals), horizontalSoft: corridors(horizontals),
+        verticalPaths: layout.verticals.map(toPixels), horizontalPaths: layout.horizontals.map(toPixels)
+    };
+}
+
+// Righe su cui cercare il seam di una guida: quelle del corridoio, ma non oltre gli estremi interni della spezzata lungo `axis`.
+// Il tratto ha estremi arrotondati che sbordano di metà spessore: il seam passerebbe oltre il taglio su cui si innesta.
+// Gli estremi sul bordo del modello restano liberi: lì il seam deve arrivare al bordo anche se la guida ci arriva in obliquo
+function guideSpan(
+    corridor: Uint8Array | Float32Array, line: { x: number, y: number }[], axis: 'x' | 'y', width: number, height: number
+): { start: number, end: number } | null {
+    const rows = MaskRasterizer.rowRange(corridor, width, height);
+    if (!rows || line.length === 0) return rows;
+    const other = axis === 'x' ? 'y' : 'x';
+    const onFrame = (p: { x: number, y: number }) =>
+        p[axis] <= 0.5 || p[axis] >= height - 0.5 || p[other] <= 0.5 || p[other] >= width - 0.5;
+    const first = line.reduce((a, p) => p[axis] < a[axis] ? p : a);
+    const last = line.reduce((a, p) => p[axis] > a[axis] ? p : a);
+    const start = onFrame(first) ? rows.start : Math.max(rows.start, Math.floor(first[axis]));
+    const end = onFrame(last) ? rows.end : Math.min(rows.end, Math.ceil(last[axis]) - 1);
+    return start <= end ? { start, end } : null;
+}
+
+// Colonna centrale del corridoio di una guida alla riga data (pixel): serve solo a indicare il taglio nei messaggi
+function guideColumn(corridor: Uint8Array | Float32Array, width: number, row: number): number {
+    let best = 0, count = 0, sum = 0;
+    for (let x = 0; x < width; x++) {
+        const v = corridor[row * width + x];
+        if (corridor instanceof Float32Array) {
+            if (v < corridor[row * width + best]) best = x;
+        } else if (v) {
+            sum += x;
+            count++;
+        }
+    }
+    return corridor instanceof Float32Array ? best : (count > 0 ? sum / count : 0);
+}
+
+// Carica la HeightMap da immagine (la risoluzione viene dai suoi metadata) o dalla mesh, passando dalla cache
+async function loadHeightMap(
+    inputPath: string,
+    resolution: number,
+    opts: { cacheDir: string, useCache: boolean, jobs: number }
+): Promise<{ mapData: HeightMapData, resolution: number, reader: MeshReader | null }> {
+    if (HeightMapImage.isImage(inputPath)) {
+        const loaded = await HeightMapImage.load(inputPath);
+        if (loaded.resolution !== resolution) {
+            console.log(`   -> Risoluzione dai metadata dell'immagine: ${loaded.resolution}mm (ignorato -r ${resolution})`);
+        }
+        return { mapData: loaded.data, resolution: loaded.resolution, reader: null };
+    }
+
+    const reader = MeshReaders.open(inputPath);
+
+    // La HeightMap dipende solo dal contenuto del file e dalla risoluzione: le ri-esecuzioni la riusano
+    const cache = new HeightMapCache(opts.cacheDir);
+    const cacheKey = opts.useCache ? HeightMapCache.key(inputPath, resolution) : '';
+    const cached = opts.useCache ? cache.load(cacheKey) : null;
+
+    if (cached) {
+        console.log(`♻️  HeightMap da cache: ${cached.width}x${cached.height} pixels (Res: ${resolution}mm)`);
+        return { mapData: cached, resolution, reader };
+    }
+    const mapData = await HeightMapper.meshToGrid(reader, resolution, { jobs: opts.jobs });
+    if (opts.useCache) cache.save(cacheKey, resolution, mapData);
+    return { mapData, resolution, reader };
+}
+
+async function template(inputFile: string, opts: any) {
+    const inputPath = path.resolve(inputFile);
+    const OUT_FILE = opts.out ?? path.join(path.dirname(inputPath), `${path.parse(inputPath).name}_guide.svg`);
+    const BED_MARGIN = parseFloat(opts.bedMargin);
+    const BED_W = parseFloat(opts.width) - 2 * BED_MARGIN;
+    const BED_H = parseFloat(opts.height) - 2 * BED_MARGIN;
+    const SEARCH_WIDTH = parseInt(opts.searchWidth);
+    const LAYOUT = opts.layout as LayoutMode;
+
+    if (!fs.existsSync(inputPath)) { console.error("File non trovato"); process.exit(1); }
+    if (!(BED_MARGIN >= 0)) {
+        console.error(`❌ --bed-margin non valido: ${opts.bedMargin} (usa un valore maggiore o uguale a 0)`);
+        process.exit(1);
+    }
+    if (opts.autoLines && !(BED_W > 0 && BED_H > 0)) {
+        console.error(`❌ Dimensioni del piatto non valide: ${opts.width}x${opts.height} (margine ${BED_MARGIN}mm)`);
+        process.exit(1);
+    }
+    if (!LAYOUT_MODES.includes(LAYOUT)) {
+        console.error(`❌ Layout sconosciuto: "${LAYOUT}" (disponibili: ${LAYOUT_MODES.join(', ')})`);
+        process.exit(1);
+    }
+
+    console.log(`🧩 Template guida per: ${path.basename(inputPath)}`);
+    try {
+        const { mapData, resolution } = await loadHeightMap(inputPath, parseFloat(opts.resolution), {
+            cacheDir: opts.cacheDir, useCache: opts.cache !== false, jobs: parseInt(opts.jobs)
+        });
+        const widthMm = mapData.width * resolution;
+        const heightMm = mapData.height * resolution;
+
+        // Il template non sa se i tile potranno essere ruotati: il planner resta sul piatto dritto
+        let layout: LayoutKind | Layout = LAYOUT === 'auto' ? 'grid' : LAYOUT;
+        if (opts.autoLines && LAYOUT === 'auto') {
+            const planOptions = { bedWidth: BED_W, bedHeight: BED_H, resolution, reserves: [0, SEARCH_WIDTH * resolution / 2] };
+            const plan = LayoutPlanner.plan(mapData, planOptions);
+            console.log(LayoutPlanner.formatReport(plan, planOptions));
+            layout = plan.best.layout;
+        }
+
+        const outDir = path.dirname(path.resolve(OUT_FILE));
+        if (!fs.existsSync(outDir)) fs.mkdirSync(outDir, { recursive: true });
+        GuideTemplate.write(OUT_FILE, {
+            width: widthMm,
+            height: heightMm,
+            background: await HeightMapImage.renderPng(mapData),
+            // Lo spessore è la tolleranza di ricerca: in mm come il resto del documento
+            autoLines: opts.autoLines ? { bedWidth: BED_W, bedHeight: BED_H, strokeWidth: SEARCH_WIDTH * resolution, layout } : undefined
+        });
+        console.log(`✅ Template salvato in: ${OUT_FILE} (${widthMm.toFixed(1)}x${heightMm.toFixed(1)}mm)`);
+        console.log(`   Disegna nei layer cuts-vertical, cuts-horizontal, cuts-free, seeds, keep-together, no-cut e passa il file con -g (stessa -r).`);
+    } catch (e: any) {
+        console.error(`❌ ${e.message}`);
+        process.exit(1);
+    }
+}
+
 async function run(inputFile: string, opts: any) {
     const stlPath = path.resolve(inputFile);
     const GUIDE_FILE = opts.guide;
-    const BED_W = parseFloat(opts.width);
-    const BED_H = parseFloat(opts.height);
-    const RESOLUTION = parseFloat(opts.resolution);
+    // Il margine riduce il piatto per tutto il resto: layout, verifica dei tile e orientamento
+    const BED_MARGIN = parseFloat(opts.bedMargin);
+    const BED_W = parseFloat(opts.width) - 2 * BED_MARGIN;
+    const BED_H = parseFloat(opts.height) - 2 * BED_MARGIN;
+    let RESOLUTION = parseFloat(opts.resolution);
     const OUT_DIR = opts.out;
     const VERBOSE = opts.verbose;
     const PREVIEW = opts.preview;
@@ -46,210 +236,395 @@ async function run(inputFile: string, opts: any) {
     const GENERATE_STLS = opts.generateStls;
     const OPENSCAD_PATH = opts.openscad;
     const LEGACY = opts.legacy;
+    const WATERSHED_LINES = opts.watershedLines;
+    const GRADIENT = opts.gradient as GradientOperator;
+    const SIGMA = parseFloat(opts.sigma);
+    const CONNECTIVITY = parseInt(opts.connectivity);
+    const LAYERS = opts.layers;
+    const SEED_MODE = opts.seeds as SeedMode;
+    const LLOYD_ITERATIONS = parseInt(opts.lloydIterations);
+    const MAX_REPAIR = parseInt(opts.maxRepair);
+    const ALLOW_ROTATION = opts.allowRotation;
+    const LAYER_WEIGHT = parseFloat(opts.layerWeight);
     const SEARCH_WIDTH = parseInt(opts.searchWidth);
+    const CURVE_TOLERANCE = parseFloat(opts.curveTolerance);
+    const SOFT_CORRIDORS = opts.softCorridors;
+    const LAYOUT = opts.layout as LayoutMode;
+    const JOBS = parseInt(opts.jobs);
+    const USE_CACHE = opts.cache !== false;
+    const EXPORT_HEIGHTMAP = opts.exportHeightmap;
 
     if (!fs.existsSync(stlPath)) { console.error("File non trovato"); process.exit(1); }
+    if (!GRADIENT_OPERATORS.includes(GRADIENT)) {
+        console.error(`❌ Operatore gradiente sconosciuto: "${GRADIENT}" (disponibili: ${GRADIENT_OPERATORS.join(', ')})`);
+        process.exit(1);
+    }
+    if (CONNECTIVITY !== 4 && CONNECTIVITY !== 8) {
+        console.error(`❌ Connettività non valida: ${opts.connectivity} (usa 4 o 8)`);
+        process.exit(1);
+    }
+    if (!SEED_MODES.includes(SEED_MODE)) {
+        console.error(`❌ Modalità semi sconosciuta: "${SEED_MODE}" (disponibili: ${SEED_MODES.join(', ')})`);
+        process.exit(1);
+    }
+    if (!(LAYER_WEIGHT >= 0 && LAYER_WEIGHT <= 1)) {
+        console.error(`❌ --layer-weight non valido: ${opts.layerWeight} (usa un valore tra 0 e 1)`);
+        process.exit(1);
+    }
+
+    if (!LAYOUT_MODES.includes(LAYOUT)) {
+        console.error(`❌ Layout sconosciuto: "${LAYOUT}" (disponibili: ${LAYOUT_MODES.join(', ')})`);
+        process.exit(1);
+    }
+
+    if (!(BED_MARGIN >= 0) || !(BED_W > 0 && BED_H > 0)) {
+        console.error(`❌ --bed-margin non valido: ${opts.bedMargin} (piatto ${opts.width}x${opts.height}mm)`);
+        process.exit(1);
+    }
+
+    if (!(CURVE_TOLERANCE > 0)) {
+        console.error(`❌ --curve-tolerance non valido: ${opts.curveTolerance} (usa un valore maggiore di 0)`);
+        process.exit(1);
+    }
+
+    // Quote dei cambi colore (relative al piano: la HeightMap è in Z assoluta, si sommano a bounds.minZ)
+    let layerHeights: number[] = [];
+    if (LAYERS) {
+        try {
+            layerHeights = fs.existsSync(LAYERS) ? LayerHeights.load(LAYERS) : LayerHeights.fromList(LAYERS);
+        } catch (e: any) {
+            console.error(`❌ ${e.message}`);
+            process.exit(1);
+        }
+        console.log(`🎨 ${layerHeights.length} cambi colore: ${layerHeights.map(h => h.toFixed(2)).join(', ')}mm (peso ${LAYER_WEIGHT})`);
+    }
 
     console.log(`🚀 Avvio HueSlicer SVG Generator su: ${path.basename(stlPath)}`);
-    console.log(`⚙️  Config: Bed ${BED_W}x${BED_H}mm, Res ${RESOLUTION}mm/px`);
+    console.log(`⚙️  Config: Bed ${BED_W}x${BED_H}mm${BED_MARGIN > 0 ? ` (margine ${BED_MARGIN}mm)` : ''}, Res ${RESOLUTION}mm/px`);
     console.log(`🔧 Mode: ${LEGACY ? 'LEGACY (Seam Carving)' : 'WATERSHED'} | Preview: ${PREVIEW || PREVIEW_ONLY}`);
+    if (!LEGACY) console.log(`🌊 Watershed: gradiente ${GRADIENT}${GRADIENT === 'log' ? ` (sigma ${SIGMA}px)` : ''}, connettività ${CONNECTIVITY}`);
     if (GENERATE_STLS) console.log(`🔨 OpenSCAD STL Generation: ACTIVE (Path: ${OPENSCAD_PATH})`);
 
     const { SeamFinder } = await import('./prototypes/SeamFinderInfo');
 
     // 1. Genera HeightMap per trovare seam paths ottimali
     console.log("\n--- FASE 1: Analisi Topologica ---");
-    const mapData = await HeightMapper.stlToGrid(stlPath, RESOLUTION);
+    // Con una HeightMap in input (PNG/TIFF) non c'è mesh: si eseguono solo le fasi di layout
+    let reader: MeshReader | null = null;
+    let mapData: HeightMapData;
+    try {
+        ({ mapData, resolution: RESOLUTION, reader } = await loadHeightMap(stlPath, RESOLUTION, { cacheDir: path.join(OUT_DIR, '.cache'), useCache: USE_CACHE, jobs: JOBS }));
+
+        if (EXPORT_HEIGHTMAP) {
+            const exportDir = path.dirname(path.resolve(EXPORT_HEIGHTMAP));
+            if (!fs.existsSync(exportDir)) fs.mkdirSync(exportDir, { recursive: true });
+            await HeightMapImage.export(mapData, RESOLUTION, EXPORT_HEIGHTMAP);
+        }
+    } catch (e: any) {
+        console.error(`❌ ${e.message}`);
+        process.exit(1);
+    }
+    const layerZ = layerHeights.map(h => mapData.bounds.minZ + h);
     const widthMm = mapData.width * RESOLUTION;
     const heightMm = mapData.height * RESOLUTION;
 
-    const cols = Math.ceil(widthMm / BED_W);
-    const rows = Math.ceil(heightMm / BED_H);
-
-    const colsW = widthMm / cols;
-    const rowsH = heightMm / rows;
-    console.log(`   -> Tile Size: ${colsW}x${rowsH}mm`);
+    // Tagli e semi dell'auto-tiling (usati se manca il file guida; i semi anche dal Watershed con la guida)
+    let layout: Layout;
+    if (LAYOUT === 'auto') {
+        // I layout per il piatto girato servono tile ruotati: il Legacy li orienta sempre, il Watershed solo con --allow-rotation
+        const planOptions = {
+            bedWidth: BED_W, bedHeight: BED_H, resolution: RESOLUTION,
+            allowRotation: LEGACY || ALLOW_ROTATION, reserves: [0, SEARCH_WIDTH * RESOLUTION / 2]
+        };
+        const plan = LayoutPlanner.plan(mapData, planOptions);
+        console.log(LayoutPlanner.formatReport(plan, planOptions));
+        layout = plan.best.layout;
+    } else {
+        // Come nel planner: i seam dell'auto-tiling possono scostarsi di metà corridoio, le celle lasciano quello spazio
+        const reserve = GUIDE_FILE && fs.existsSync(GUIDE_FILE) ? 0 : SEARCH_WIDTH * RESOLUTION / 2;
+        try {
+            layout = LayoutGenerator.generate(LAYOUT, widthMm, heightMm, BED_W, BED_H, undefined, reserve);
+        } catch (e: any) {
+            console.error(`❌ ${e.message} (--search-width ${SEARCH_WIDTH}px: i seam possono scostarsi di ${reserve.toFixed(1)}mm dalla guida; riducilo o usa un piatto più grande)`);
+            process.exit(1);
+        }
+    }
+    console.log(`   -> Layout ${layout.kind}: ${layout.cells.length} tiles, Tile Size: ${layout.cellWidth}x${layout.cellHeight}mm` +
+        (layout.reserve > 0 ? ` (riserva ${layout.reserve.toFixed(1)}mm per lato)` : ''));
 
     // Output containers
     let verticalPaths: { x: number, y: number }[][] = [];
     let horizontalPaths: { x: number, y: number }[][] = [];
+    // Tagli liberi della guida (layer cuts-free, solo Legacy), in mm
+    let freePaths: { x: number, y: number }[][] = [];
     let watershedPolygons: { x: number, y: number }[][] = [];
-    let generatedTilesFilePaths: string[] = [];
+    let watershedNames: (string | undefined)[] = [];
+    // Nomi dei tile dalle etichette dei semi della guida (label watershed -> nome)
+    const tileNames = new Map<number, string>();
+    let exportedTiles: ExportedTile[] = [];
+    // Tile del Legacy, ricavati dai seam prima dell'export per verificarli sul piatto
+    let cutTiles: CutTile[] = [];
 
     // Visualization Debug Data
     let vizSeeds: { x: number, y: number, label: number }[] = [];
     let vizBarriers: { x: number, y: number }[][] = [];
     let segmenter: WatershedSegmenter | null = null;
-
-    // Helper: Transpone una maschera booleana 2D
-    function transposeMask(mask: boolean[][]): boolean[][] {
-        const rows = mask.length; const cols = mask[0].length;
-        const result: boolean[][] = Array(cols).fill(null).map(() => Array(rows).fill(false));
-        for (let y = 0; y < rows; y++) for (let x = 0; x < cols; x++) result[x][y] = mask[y][x];
-        return result;
-    }
-
-    // Helper: Generate Base64 HeightMap Image
-    function generateHeightMapImage(data: { grid: Float32Array, width: number, height: number }): string {
-        const { createCanvas } = require('canvas');
-        const canvas = createCanvas(data.width, data.height);
-        const ctx = canvas.getContext('2d');
-        const imgData = ctx.createImageData(data.width, data.height);
-        let minZ = Infinity, maxZ = -Infinity;
-        for (let i = 0; i < data.grid.length; i++) {
-            if (data.grid[i] > maxZ) maxZ = data.grid[i];
-            if (data.grid[i] < minZ) minZ = data.grid[i];
-        }
-        const range = maxZ - minZ || 1;
-        for (let i = 0; i < data.grid.length; i++) {
-            const val = data.grid[i];
-            const norm = Math.floor(((val - minZ) / range) * 255);
-            const idx = i * 4;
-            imgData.data[idx] = norm; imgData.data[idx + 1] = norm; imgData.data[idx + 2] = norm; imgData.data[idx + 3] = 255;
-        }
-        ctx.putImageData(imgData, 0, 0);
-        return canvas.toDataURL();
-    }
-
-    function generateGradientMapImage(width: number, height: number, gradient: Float32Array): string {
-        const { createCanvas } = require('canvas');
-        const canvas = createCanvas(width, height);
-        const ctx = canvas.getContext('2d');
-        const imgData = ctx.createImageData(width, height);
-        let maxG = -Infinity;
-        // Find max to normalize (Barriers should be very high, visible as "light")
-        for (let i = 0; i < gradient.length; i++) if (gradient[i] > maxG) maxG = gradient[i];
-        const range = maxG || 1;
-
-        for (let i = 0; i < gradient.length; i++) {
-            const val = gradient[i];
-            // Normalize: 0 = Black, Max = White
-            const norm = Math.floor((val / range) * 255);
-            const idx = i * 4;
-            imgData.data[idx] = norm;     // R 
-            imgData.data[idx + 1] = norm; // G
-            imgData.data[idx + 2] = norm; // B
-            imgData.data[idx + 3] = 255;  // A
+    // Report dei tile fuori misura: l'anteprima viene comunque generata, l'export no
+    let bedFitReport: string | null = null;
+    // Angolo in alto a sinistra del layout in coordinate mondo: i tile restano allineati all'STL ovunque sia posizionato
+    const tileOrigin = { x: mapData.bounds.minX, y: mapData.bounds.maxY };
+    // Ogni tile viene annotato con la rotazione che lo fa entrare nel piatto (0 se non serve)
+    const bed = { width: BED_W, height: BED_H };
+
+    // Path, unità o viewBox malformati: il parser lancia un errore, che ferma l'esecuzione come quelli della HeightMap
+    const parseGuide = (): GuideSet => {
+        try {
+            return GuideParser.parse(GUIDE_FILE, mapData.width, mapData.height, { curveTolerance: CURVE_TOLERANCE, resolution: RESOLUTION, softCorridors: SOFT_CORRIDORS });
+        } catch (e: any) {
+            console.error(`❌ Guida non valida (${GUIDE_FILE}): ${e.message}`);
+            process.exit(1);
         }
-        ctx.putImageData(imgData, 0, 0);
-        return canvas.toDataURL();
-    }
+    };
 
     // 2. Determine Layout (Legacy or Watershed)
     if (LEGACY) {
         console.log("\n--- FASE 2: Estrazione Seam Paths (Legacy) ---");
         // Legacy Logic (Same as before)
-        let guides: { verticals: boolean[][][], horizontals: boolean[][][] } = { verticals: [], horizontals: [] };
+        let guides: Pick<GuideSet, 'verticals' | 'horizontals' | 'verticalSoft' | 'horizontalSoft' | 'verticalPaths' | 'horizontalPaths'> = {
+            verticals: [], horizontals: [], verticalSoft: [], horizontalSoft: [], verticalPaths: [], horizontalPaths: []
+        };
+        let noCut: Uint8Array[] = [];
+        let freeGuides: { x: number, y: number }[][] = [];
 
         if (GUIDE_FILE && fs.existsSync(GUIDE_FILE)) {
-            guides = GuideParser.parse(GUIDE_FILE, mapData.width, mapData.height);
-        } else {
-            console.log("⚠️  Nessun file guida fornito. Attivazione AUTO-TILING (Grid).");
-            console.log(`⚠️  Nessun file guida fornito. Attivazione AUTO-TILING (Grid). Search Width: ${SEARCH_WIDTH}`);
-            for (let i = 1; i < cols; i++) {
-                const xMm = i * colsW;
-                const xPx = (xMm / widthMm) * mapData.width;
-                const pathString = `M ${xPx} 0 L ${xPx} ${mapData.height}`;
-                guides.verticals.push(GuideParser.rasterizePath(pathString, SEARCH_WIDTH, mapData.width, mapData.height));
-            }
-            for (let j = 1; j < rows; j++) {
-                const yMm = j * rowsH;
-                const yPx = (yMm / heightMm) * mapData.height;
-                const pathString = `M 0 ${yPx} L ${mapData.width} ${yPx}`;
-                guides.horizontals.push(GuideParser.rasterizePath(pathString, SEARCH_WIDTH, mapData.width, mapData.height));
+            const parsed = parseGuide();
+            if (parsed.seeds.length > 0 || parsed.keepTogether.length > 0) {
+                console.warn("⚠️  I layer 'seeds' e 'keep-together' sono usati solo in modalità Watershed: ignorati.");
             }
+            guides = parsed;
+            noCut = parsed.noCut;
+            freeGuides = parsed.freePaths;
+        } else {
+            console.log(`⚠️  Nessun file guida fornito. Attivazione AUTO-TILING (${layout.kind}). Search Width: ${SEARCH_WIDTH}`);
+            guides = layoutGuides(layout, mapData, widthMm, heightMm, SEARCH_WIDTH, SOFT_CORRIDORS);
         }
 
         const scaleX = widthMm / mapData.width;
         const scaleY = heightMm / mapData.height;
+        freePaths = freeGuides.map(p => p.map(pt => ({ x: pt.x * scaleX, y: pt.y * scaleY })));
 
-        for (const mask of guides.verticals) {
+        // Una guida parziale (es. giunto sfalsato) produce un seam solo sulle righe del suo corridoio:
+        // gli estremi agganciati al bordo restano sul bordo, gli altri vengono uniti ai tagli vicini da SvgExporter
+        const blocked: string[] = [];
+        guides.verticals.forEach((mask, i) => {
             const finder = new SeamFinder(mapData.grid, mapData.width, mapData.height);
-            finder.setMask(mask);
-            const seamMm = finder.findVerticalSeam(0, mapData.width - 1).map((p: any) => ({ x: p.x * scaleX, y: p.y * scaleY }));
-            if (seamMm.length > 0) { seamMm[0].y = 0; seamMm[seamMm.length - 1].y = heightMm; verticalPaths.push(seamMm); }
-        }
+            const soft = guides.verticalSoft[i];
+            if (soft) finder.setSoftCorridor(soft.distance, soft.falloff);
+            else finder.setMask(mask);
+            noCut.forEach(m => finder.addForbidden(m));
+            if (layerZ.length > 0) finder.setLayerHeights(layerZ, LAYER_WEIGHT);
+            const rows = guideSpan(soft ? soft.distance : mask, guides.verticalPaths[i], 'y', mapData.width, mapData.height);
+            if (!rows) return;
+            const seam = finder.findVerticalSeam(0, mapData.width - 1, rows.start, rows.end);
+            if (!seam) {
+                const x = guideColumn(soft ? soft.distance : mask, mapData.width, Math.floor((rows.start + rows.end) / 2)) * scaleX;
+                blocked.push(`taglio verticale ${i + 1} (x ≈ ${x.toFixed(1)}mm, y ${(rows.start * scaleY).toFixed(1)}-${((rows.end + 1) * scaleY).toFixed(1)}mm)`);
+                return;
+            }
+            const seamMm = seam.map((p: any) => ({ x: p.x * scaleX, y: p.y * scaleY }));
+            if (seamMm.length > 0) {
+                if (rows.start === 0) seamMm[0].y = 0;
+                if (rows.end === mapData.height - 1) seamMm[seamMm.length - 1].y = heightMm;
+                verticalPaths.push(seamMm);
+            }
+        });
 
         const transposedGrid = new Float32Array(mapData.width * mapData.height);
         for (let y = 0; y < mapData.height; y++)
             for (let x = 0; x < mapData.width; x++) transposedGrid[x * mapData.height + y] = mapData.grid[y * mapData.width + x];
 
-        for (const mask of guides.horizontals) {
+        const transposedNoCut = noCut.map(m => MaskRasterizer.transpose(m, mapData.width, mapData.height));
+        guides.horizontals.forEach((mask, i) => {
             const transposedW = mapData.height;
             const transposedH = mapData.width;
             const finder = new SeamFinder(transposedGrid, transposedW, transposedH);
-            finder.setMask(transposeMask(mask));
-            const seamMm = finder.findVerticalSeam(0, transposedW - 1).map((p: any) => ({ x: p.y * scaleX, y: p.x * scaleY }));
-            if (seamMm.length > 0) { seamMm[0].x = 0; seamMm[seamMm.length - 1].x = widthMm; horizontalPaths.push(seamMm); }
+            const soft = guides.horizontalSoft[i];
+            const corridor = soft ? MaskRasterizer.transpose(soft.distance, mapData.width, mapData.height) : MaskRasterizer.transpose(mask, mapData.width, mapData.height);
+            if (soft) finder.setSoftCorridor(corridor as Float32Array, soft.falloff);
+            else finder.setMask(corridor as Uint8Array);
+            transposedNoCut.forEach(m => finder.addForbidden(m));
+            if (layerZ.length > 0) finder.setLayerHeights(layerZ, LAYER_WEIGHT);
+            const span = guideSpan(corridor, guides.horizontalPaths[i], 'x', transposedW, transposedH);
+            if (!span) return;
+            const seam = finder.findVerticalSeam(0, transposedW - 1, span.start, span.end);
+            if (!seam) {
+                const y = guideColumn(corridor, transposedW, Math.floor((span.start + span.end) / 2)) * scaleY;
+                blocked.push(`taglio orizzontale ${i + 1} (y ≈ ${y.toFixed(1)}mm, x ${(span.start * scaleX).toFixed(1)}-${((span.end + 1) * scaleX).toFixed(1)}mm)`);
+                return;
+            }
+            const seamMm = seam.map((p: any) => ({ x: p.y * scaleX, y: p.x * scaleY }));
+            if (seamMm.length > 0) {
+                if (span.start === 0) seamMm[0].x = 0;
+                if (span.end === transposedH - 1) seamMm[seamMm.length - 1].x = widthMm;
+                horizontalPaths.push(seamMm);
+            }
+        });
+
+        if (blocked.length > 0) {
+            console.error(`❌ Nessun percorso possibile per ${blocked.length} tagli: le zone no-cut chiudono tutto il corridoio della guida.`);
+            for (const b of blocked) console.error(`   - ${b}`);
+            console.error(`   Sposta la guida, allarga il tratto (stroke-width / --search-width) o riduci le zone no-cut.`);
+            process.exit(1);
         }
 
+        // Tile dai seam, verificati sul piatto (anche ruotati) prima dell'anteprima: come nel Watershed, i fuori misura fermano l'export
+        // I seam parziali si fermano all'estremo della guida, a metà corridoio al massimo dal giunto; il seam su cui
+        // si innestano può stare a metà corridoio dall'altro lato: aggancio entro un corridoio intero
+        const snapTolerance = SEARCH_WIDTH * scaleX;
+        cutTiles = SvgExporter.arrangePaths(verticalPaths, horizontalPaths, widthMm, heightMm, tileOrigin, bed, { free: freePaths, snapTolerance });
+        bedFitReport = SvgExporter.bedFitReport(cutTiles, bed);
+        if (bedFitReport) console.error(`❌ ${bedFitReport}`);
+
     } else {
         // WATERSHED MODE
         console.log("\n--- FASE 2: Watershed Segmentation ---");
 
-        // 1. Prepare Seeds (Grid Centers)
-        const cols = Math.ceil(widthMm / colsW);
-        const rows = Math.ceil(heightMm / rowsH);
-        let labelCounter = 1;
-
-        console.log(`   -> Grid Strategy: ${cols}x${rows} tiles anticipated.`);
+        // 1. Prepare Seeds (Layout Cell Centers)
+        console.log(`   -> ${layout.kind} Strategy: ${layout.cells.length} tiles anticipated.`);
 
         let lbl = 1;
-        const seedsForSegmenter: { x: number, y: number, label: number }[] = [];
-        for (let j = 0; j < rows; j++) {
-            for (let i = 0; i < cols; i++) {
-                const cxMm = (i + 0.5) * colsW;
-                const cyMm = (j + 0.5) * rowsH;
-                const cxMmClamped = Math.min(Math.max(cxMm, 0), widthMm - 1);
-                const cyMmClamped = Math.min(Math.max(cyMm, 0), heightMm - 1);
-                const cx = Math.floor((cxMmClamped / widthMm) * mapData.width);
-                const cy = Math.floor((cyMmClamped / heightMm) * mapData.height);
-                seedsForSegmenter.push({ x: cx, y: cy, label: lbl++ });
-                vizSeeds.push({ x: cxMmClamped, y: cyMmClamped, label: labelCounter }); // Store for Visualization (MM Coords)
-            }
+        let seedsForSegmenter: WatershedSeed[] = [];
+        // Cella del layout di ogni seme (pixel): area di ricerca per --seeds basin
+        const seedCells: { x0: number, y0: number, x1: number, y1: number }[] = [];
+        const pxPerMmX = mapData.width / widthMm;
+        const pxPerMmY = mapData.height / heightMm;
+        for (const cell of layout.cells) {
+            const cxMmClamped = Math.min(Math.max(cell.seed.x, 0), widthMm - 1);
+            const cyMmClamped = Math.min(Math.max(cell.seed.y, 0), heightMm - 1);
+            const cx = Math.floor((cxMmClamped / widthMm) * mapData.width);
+            const cy = Math.floor((cyMmClamped / heightMm) * mapData.height);
+            seedsForSegmenter.push({ x: cx, y: cy, label: lbl++ });
+            seedCells.push({ x0: cell.x0 * pxPerMmX, y0: cell.y0 * pxPerMmY, x1: cell.x1 * pxPerMmX - 1, y1: cell.y1 * pxPerMmY - 1 });
         }
 
         console.log(`   -> Placed ${seedsForSegmenter.length} seeds.`);
 
         // 2. Preparing Guides & Barriers
-        let guides: { verticals: boolean[][][], horizontals: boolean[][][] } = { verticals: [], horizontals: [] };
+        let guides: GuideSet = { verticals: [], horizontals: [], verticalSoft: [], horizontalSoft: [], verticalPaths: [], horizontalPaths: [], freePaths: [], seeds: [], keepTogether: [], noCut: [] };
 
         if (GUIDE_FILE && fs.existsSync(GUIDE_FILE)) {
-            guides = GuideParser.parse(GUIDE_FILE, mapData.width, mapData.height);
+            guides = parseGuide();
             console.log("   -> Used provided Guide File for barriers.");
+            if (guides.freePaths.length > 0) {
+                console.warn("⚠️  Il layer 'cuts-free' è usato solo in modalità Legacy: ignorato.");
+            }
         } else {
             // AUTO-GENERATE GUIDES for Watershed Barriers too!
             console.log(`   -> Auto-Generating Guides for Watershed Barriers. Search Width: ${SEARCH_WIDTH}`);
 
-            for (let i = 1; i < cols; i++) {
-                const xMm = i * colsW;
-                const xPx = (xMm / widthMm) * mapData.width;
-                const pathString = `M ${xPx} 0 L ${xPx} ${mapData.height}`;
-                guides.verticals.push(GuideParser.rasterizePath(pathString, SEARCH_WIDTH, mapData.width, mapData.height));
-                // Add to viz
-                vizBarriers.push([{ x: xMm, y: 0 }, { x: xMm, y: heightMm }]);
-            }
-            for (let j = 1; j < rows; j++) {
-                const yMm = j * rowsH;
-                const yPx = (yMm / heightMm) * mapData.height;
-                const pathString = `M 0 ${yPx} L ${mapData.width} ${yPx}`;
-                guides.horizontals.push(GuideParser.rasterizePath(pathString, SEARCH_WIDTH, mapData.width, mapData.height));
-                // Add to viz
-                vizBarriers.push([{ x: 0, y: yMm }, { x: widthMm, y: yMm }]);
-            }
+            guides = { ...guides, ...layoutGuides(layout, mapData, widthMm, heightMm, SEARCH_WIDTH, SOFT_CORRIDORS) };
+            // Add to viz
+            vizBarriers.push(...layout.verticals, ...layout.horizontals);
+        }
+
+        // Semi espliciti della guida: sostituiscono la griglia, il loro nome diventa il nome del tile
+        const explicitSeeds = guides.seeds.length > 0;
+        if (explicitSeeds) {
+            seedsForSegmenter = [];
+            guides.seeds.forEach((s, i) => {
+                const x = Math.min(Math.max(Math.floor(s.x), 0), mapData.width - 1);
+                const y = Math.min(Math.max(Math.floor(s.y), 0), mapData.height - 1);
+                seedsForSegmenter.push({ x, y, label: i + 1 });
+                if (s.label !== undefined) {
+                    const name = s.label.replace(/[^A-Za-z0-9_-]+/g, '_');
+                    const taken = Array.from(tileNames.values()).includes(name);
+                    tileNames.set(i + 1, taken ? `${name}_${i + 1}` : name);
+                }
+            });
+            console.log(`   -> Using ${seedsForSegmenter.length} seeds from the Guide File (grid seeds discarded).`);
+            if (SEED_MODE !== 'grid') console.log(`   -> --seeds ${SEED_MODE} ignored: explicit seeds are kept where drawn.`);
         }
 
         // 2. Segment
-        segmenter = new WatershedSegmenter(mapData.width, mapData.height, mapData.grid);
+        segmenter = new WatershedSegmenter(mapData.width, mapData.height, mapData.grid, {
+            gradient: GRADIENT, sigma: SIGMA, connectivity: CONNECTIVITY
+        });
 
         // Apply Barriers
-        for (const mask of guides.verticals) segmenter.applyBarriers(mask, 1); // Stronger penalty?
-        for (const mask of guides.horizontals) segmenter.applyBarriers(mask, 1);
+        const applyGuide = (mask: Uint8Array, soft: SoftCorridor | null) => {
+            if (soft) segmenter!.applySoftBarrier(soft.distance, soft.falloff, 1);
+            else segmenter!.applyBarriers(mask, 1); // Stronger penalty?
+        };
+        guides.verticals.forEach((mask, i) => applyGuide(mask, guides.verticalSoft[i]));
+        guides.horizontals.forEach((mask, i) => applyGuide(mask, guides.horizontalSoft[i]));
         console.log("   -> Applied Barriers.");
 
-        const labels = segmenter.segment(seedsForSegmenter);
+        if (guides.keepTogether.length > 0) {
+            segmenter.setLockedRegions(guides.keepTogether);
+            console.log(`   -> Locked ${guides.keepTogether.length} keep-together areas.`);
+        }
+        if (guides.noCut.length > 0) {
+            segmenter.applyNoCut(guides.noCut);
+            console.log(`   -> Applied ${guides.noCut.length} no-cut areas.`);
+        }
+
+        if (layerZ.length > 0) {
+            segmenter.applyLayerTransitions(layerZ, LAYER_WEIGHT);
+            console.log("   -> Applied Layer Transitions (hidden seams).");
+        }
+
+        // 3. Seed Optimization (on the final cost map, barriers included)
+        const seedMode: SeedMode = explicitSeeds ? 'grid' : SEED_MODE;
+        if (seedMode !== 'grid') {
+            seedsForSegmenter = SeedOptimizer.snapToBasins(seedsForSegmenter, seedCells, segmenter.getGradientMap(), mapData.width, mapData.height);
+            console.log("   -> Seeds moved to low-gradient basins.");
+        }
+
+        const bedPx = { width: BED_W / RESOLUTION, height: BED_H / RESOLUTION };
+        const segmentOptions = {
+            watershedLines: WATERSHED_LINES,
+            // Il rilassamento usa il watershed compatto: anche le correzioni successive devono usarlo
+            compactness: seedMode === 'lloyd' ? SeedOptimizer.defaultCompactness(segmenter, bedPx) : 0
+        };
+
+        if (seedMode === 'lloyd') {
+            const result = SeedOptimizer.relax(segmenter, seedsForSegmenter, mapData.width, mapData.height, bedPx, LLOYD_ITERATIONS, segmentOptions);
+            seedsForSegmenter = result.seeds;
+            if (result.fits) {
+                console.log(`   -> Lloyd: all tiles fit the bed after ${result.iterations} iterations.`);
+            } else {
+                console.warn(`⚠️  Lloyd: ${result.oversized.length} tile ancora più grandi del piatto dopo ${result.iterations} iterazioni:`);
+                for (const r of result.oversized) {
+                    const size = RegionStats.size(r);
+                    console.warn(`     - Tile ${r.label}: ${(size.width * RESOLUTION).toFixed(1)}x${(size.height * RESOLUTION).toFixed(1)}mm`);
+                }
+            }
+        }
+
+        // 4. Bed-size guarantee: split/re-seed the tiles that do not fit
+        const fitOptions: BedFitOptions = {
+            bedWidth: BED_W, bedHeight: BED_H, resolution: RESOLUTION,
+            rotated: ALLOW_ROTATION, maxRounds: MAX_REPAIR, segmentOptions
+        };
+        const fit = BedFitter.repair(segmenter, seedsForSegmenter, mapData.width, mapData.height, fitOptions);
+        seedsForSegmenter = fit.seeds;
+        const labels = fit.labels;
+        if (fit.fits) {
+            if (fit.rounds > 0) console.log(`   -> Bed fit: ${fit.tiles.length} tiles fit after ${fit.rounds} split rounds.`);
+            else console.log(`   -> Bed fit: all ${fit.tiles.length} tiles fit ${BED_W}x${BED_H}mm.`);
+        } else {
+            bedFitReport = BedFitter.formatReport(fit, fitOptions);
+            console.error(`❌ ${bedFitReport}`);
+        }
         console.log("   -> Segmentation complete.");
 
+        // Final seeds for the preview (MM Coords, pixel centers)
+        for (const seed of seedsForSegmenter) {
+            vizSeeds.push({ x: (seed.x + 0.5) / pxPerMmX, y: (seed.y + 0.5) / pxPerMmY, label: seed.label });
+        }
+        const lines = segmenter.getWatershedLines();
+        if (lines) console.log(`   -> Watershed lines: ${lines.reduce((n, v) => n + v, 0)} pixels.`);
+
         // 3. Trace (Topology-Aware)
         console.log("   -> Tracing boundaries with TopologyTracer...");
         const tracer = new TopologyTracer(mapData.width, mapData.height, labels);
@@ -258,9 +633,10 @@ async function run(inputFile: string, opts: any) {
         const scaleX = widthMm / mapData.width;
         const scaleY = heightMm / mapData.height;
 
-        for (const poly of polygonsMap.values()) {
+        for (const [label, poly] of polygonsMap) {
             const scaledPoly = poly.map(p => ({ x: p.x * scaleX, y: p.y * scaleY }));
             watershedPolygons.push(scaledPoly);
+            watershedNames.push(tileNames.get(label));
         }
         console.log(`   -> Traced ${watershedPolygons.length} polygon regions.`);
     }
@@ -273,14 +649,18 @@ async function run(inputFile: string, opts: any) {
         const builder = new SvgBuilder(widthMm, heightMm);
 
         try {
-            let bgImage = "";
+            let bgImage: Buffer;
             if (!LEGACY && segmenter) {
                 console.log("   -> Generating Gradient Map Background (Debug Mode) - Look for bright barrier lines");
-                bgImage = generateGradientMapImage(mapData.width, mapData.height, segmenter.getGradientMap());
+                // 0 = nero, massimo = bianco: le barriere (costo altissimo) risaltano come linee chiare
+                const gradient = segmenter.getGradientMap();
+                let maxG = 0;
+                for (let i = 0; i < gradient.length; i++) if (gradient[i] > maxG) maxG = gradient[i];
+                bgImage = HeightMapImage.grayPng(gradient, mapData.width, mapData.height, { min: 0, max: maxG });
             } else {
-                bgImage = generateHeightMapImage(mapData);
+                bgImage = await HeightMapImage.renderPng(mapData);
             }
-            builder.setBackground(bgImage);
+            builder.setBackground(`data:image/png;base64,${bgImage.toString('base64')}`);
         } catch (e) {
             console.warn("   -> Failed to generate background image:", e);
         }
@@ -288,46 +668,86 @@ async function run(inputFile: string, opts: any) {
         if (LEGACY) {
             verticalPaths.forEach(p => builder.addCutLine(p, 'red'));
             horizontalPaths.forEach(p => builder.addCutLine(p, 'blue'));
+            freePaths.forEach(p => builder.addCutLine(p, 'orange'));
         } else {
             // Visualize Watershed Polygons
             watershedPolygons.forEach(p => builder.addCutLine(p, 'lime'));
 
             // Debug: Visualize Seeds
-            vizSeeds.forEach(s => builder.addCircle(s.x, s.y, 5, 'white', 'none'));
-            console.log("   -> Visualize Seeds (Circles)");
+            vizSeeds.forEach(s => {
+                builder.addCircle(s.x, s.y, 5, 'white', 'none');
+                builder.addLabel(s.x, s.y - 7, `${s.label}`, 'white');
+            });
+            console.log(`   -> Visualize Seeds (Circles, mode: ${SEED_MODE})`);
 
             // Debug: Visualize Barriers
             vizBarriers.forEach(p => builder.addCutLine(p, 'yellow'));
             console.log("   -> Visualize Barriers (Yellow Lines)");
+
+            const lines = segmenter?.getWatershedLines();
+            if (lines) {
+                builder.addPixelMask(lines, mapData.width, mapData.height, widthMm / mapData.width, heightMm / mapData.height, 'magenta');
+                console.log("   -> Visualize Watershed Lines (Magenta)");
+            }
         }
 
         builder.save(svgPath);
     }
 
+    if (bedFitReport) {
+        console.error("\n❌ Export annullato: alcuni tile non entrano nel piatto (vedi report sopra).");
+        process.exit(1);
+    }
+
     // --- FASE 5: SVG Export ---
     if (!PREVIEW_ONLY) {
         console.log("\n--- FASE 5: Exporting Tiles Layout SVG ---");
         if (!fs.existsSync(OUT_DIR)) fs.mkdirSync(OUT_DIR, { recursive: true });
 
         if (LEGACY) {
-            generatedTilesFilePaths = await SvgExporter.generateFromPaths(verticalPaths, horizontalPaths, widthMm, heightMm, OUT_DIR);
+            exportedTiles = await SvgExporter.generateFromPaths(cutTiles, widthMm, heightMm, OUT_DIR, tileOrigin);
         } else {
-            generatedTilesFilePaths = await SvgExporter.generateFromPolygons(watershedPolygons, widthMm, heightMm, OUT_DIR);
+            exportedTiles = await SvgExporter.generateFromPolygons(watershedPolygons, widthMm, heightMm, OUT_DIR, tileOrigin, bed, watershedNames);
         }
 
-        console.log(`✅ ${generatedTilesFilePaths.length} Tile SVGs generati in: ${OUT_DIR}`);
+        console.log(`✅ ${exportedTiles.length} Tile SVGs generati in: ${OUT_DIR}`);
+
+        // Conserva colori/materiali del 3MF/OBJ per poter ri-esportare i tile con gli stessi gruppi
+        const meshMetadata = reader?.getMetadata();
+        if (meshMetadata && meshMetadata.materialGroups.length > 0) {
+            const metadataPath = path.join(OUT_DIR, '_mesh_metadata.json');
+            fs.writeFileSync(metadataPath, JSON.stringify(meshMetadata, null, 2));
+            console.log(`🎨 ${meshMetadata.materialGroups.length} gruppi materiale salvati in: ${metadataPath}`);
+        }
 
         // FASE 6: OpenSCAD STL Generation
-        if (GENERATE_STLS) {
+        if (GENERATE_STLS && !reader) {
+            console.warn("⚠️  --generate-stls richiede la mesh originale: con una HeightMap in input vengono esportati solo gli SVG.");
+        } else if (GENERATE_STLS && reader) {
             console.log("\n--- FASE 6: Generazione STL con OpenSCAD ---");
             const scadGen = new ScadGenerator(OPENSCAD_PATH);
+            // La pagina SVG copre widthMm x heightMm a partire da (minX, maxY): il suo angolo in basso a sinistra è (minX, maxY - heightMm)
+            const placement = {
+                x: tileOrigin.x, y: tileOrigin.y - heightMm,
+                minZ: mapData.bounds.minZ, maxZ: mapData.bounds.maxZ
+            };
+
+            // OpenSCAD importa in modo affidabile solo STL: gli altri formati passano da una copia binaria
+            let sourceStlPath = stlPath;
+            if (reader.format !== 'stl') {
+                sourceStlPath = path.join(OUT_DIR, '_source.stl');
+                const count = MeshReaders.writeBinaryStl(reader, sourceStlPath);
+                console.log(`   -> Convertito ${reader.format.toUpperCase()} in STL (${count} triangoli): ${sourceStlPath}`);
+            }
 
-            for (const tileSvg of generatedTilesFilePaths) {
+            for (const tile of exportedTiles) {
+                const tileSvg = tile.path;
                 const tileName = path.basename(tileSvg, '.svg');
                 const stlOut = path.join(OUT_DIR, `${tileName}.stl`);
 
                 try {
-                    await scadGen.generateTileStl(stlPath, tileSvg, stlOut, 100);
+                    const rotation = tile.orientation ? { angle: tile.orientation.angle, center: tile.orientation.center } : undefined;
+                    await scadGen.generateTileStl(sourceStlPath, tileSvg, stlOut, { ...placement, rotation });
                     console.log(`   ✨ Generated: ${path.basename(stlOut)}`);
                 } catch (e) {
                     console.error(`   ❌ Failed to generate STL for ${tileName}`);
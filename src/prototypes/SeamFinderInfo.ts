@@ -1,8 +1,19 @@
+import { LayerHeights } from '../core/LayerHeights';
+import { SOFT_CORRIDOR_RANGE } from '../core/GuideParser';
+
+// Costo aggiunto a distanza `falloff` dalla guida (energia tipica: 100 / (gradiente + 1))
+const SOFT_CORRIDOR_COST = 100;
+
 export class SeamFinder {
     private width: number;
     private height: number;
     private data: Float32Array;
-    private mask: Int8Array | null = null; // Flattened mask
+    private mask: Uint8Array | null = null; // Flattened mask
+    private forbidden: Uint8Array | null = null; // Zone no-cut (sempre vietate)
+    private softDistance: Float32Array | null = null; // Distanza dalla guida (corridoio morbido)
+    private softFalloff = 1;
+    private isolines: Uint8Array | null = null; // Celle sui cambi colore
+    private layerWeight = 0;
 
     constructor(heightMap: Float32Array, width: number, height: number) {
         this.data = heightMap;
@@ -10,19 +21,42 @@ export class SeamFinder {
         this.height = height;
     }
 
-    // Permette di caricare una maschera (true = zona permessa, false = zona proibita)
-    public setMask(mask: boolean[][]) {
+    // Permette di caricare una maschera piatta (1 = zona permessa, 0 = zona proibita)
+    public setMask(mask: Uint8Array) {
         // Verifica dimensioni
-        if (mask.length !== this.height || mask[0].length !== this.width) {
+        if (mask.length !== this.width * this.height) {
             console.warn("⚠️ Warning: Dimensioni maschera diverse dalla mappa. La maschera verrà ignorata.");
             return;
         }
-        this.mask = new Int8Array(this.width * this.height);
-        for (let y = 0; y < this.height; y++) {
-            for (let x = 0; x < this.width; x++) {
-                this.mask[y * this.width + x] = mask[y][x] ? 1 : 0;
-            }
+        this.mask = mask;
+    }
+
+    // Corridoio morbido: invece di vietare l'esterno, il costo cresce col quadrato della distanza dalla guida
+    public setSoftCorridor(distance: Float32Array, falloff: number) {
+        if (distance.length !== this.width * this.height) {
+            console.warn("⚠️ Warning: Dimensioni corridoio diverse dalla mappa. Il corridoio verrà ignorato.");
+            return;
         }
+        this.softDistance = distance;
+        this.softFalloff = falloff > 0 ? falloff : 1;
+    }
+
+    // Zone in cui il seam non può passare, indipendentemente dal corridoio della guida
+    public addForbidden(mask: Uint8Array) {
+        if (mask.length !== this.width * this.height) {
+            console.warn("⚠️ Warning: Dimensioni zona no-cut diverse dalla mappa. La zona verrà ignorata.");
+            return;
+        }
+        if (!this.forbidden) this.forbidden = new Uint8Array(this.width * this.height);
+        for (let i = 0; i < mask.length; i++) {
+            if (mask[i]) this.forbidden[i] = 1;
+        }
+    }
+
+    // Quote assolute dei cambi colore: il seam costa meno dove la superficie le attraversa (weight 0..1)
+    public setLayerHeights(heights: number[], weight: number) {
+        this.isolines = LayerHeights.isolineMask(this.data, this.width, this.height, heights);
+        this.layerWeight = Math.min(Math.max(weight, 0), 1);
     }
 
     private calculateEnergyMap(): Float32Array {
@@ -33,8 +67,8 @@ export class SeamFinder {
             for (let x = 0; x < this.width; x++) {
                 const idx = rowOffset + x;
 
-                // SE C'È UNA MASCHERA e siamo fuori zona -> Costo Infinito
-                if (this.mask && this.mask[idx] === 0) {
+                // SE C'È UNA MASCHERA e siamo fuori zona (o in una zona no-cut) -> Costo Infinito
+                if ((this.mask && this.mask[idx] === 0) || (this.forbidden && this.forbidden[idx])) {
                     energyMap[idx] = Infinity;
                     continue;
                 }
@@ -44,12 +78,25 @@ export class SeamFinder {
 
                 // Costo standard: Più alto il gradiente (bordo), minore il costo.
                 energyMap[idx] = 100.0 / (gradient + 1.0);
+
+                // Seam nascosto nel passaggio di colore
+                if (this.isolines && this.isolines[idx]) energyMap[idx] *= 1 - this.layerWeight;
+
+                // Lontano dalla guida costa di più, fino a un massimo oltre SOFT_CORRIDOR_RANGE falloff
+                if (this.softDistance) {
+                    const t = Math.min(this.softDistance[idx] / this.softFalloff, SOFT_CORRIDOR_RANGE);
+                    energyMap[idx] += SOFT_CORRIDOR_COST * t * t;
+                }
             }
         }
         return energyMap;
     }
 
-    public findVerticalSeam(roiStart: number, roiEnd: number): { x: number, y: number }[] {
+    // Righe rowStart..rowEnd: una guida parziale (es. giunto sfalsato tra due tagli orizzontali) non attraversa tutto il modello.
+    // null se zone no-cut e corridoio bloccano ogni percorso: un taglio non passa mai dove è vietato
+    public findVerticalSeam(roiStart: number, roiEnd: number, rowStart: number = 0, rowEnd: number = this.height - 1): { x: number, y: number }[] | null {
+        rowStart = Math.max(0, rowStart);
+        rowEnd = Math.min(this.height - 1, rowEnd);
         const energyMap = this.calculateEnergyMap();
         const dist = new Float32Array(this.width * this.height).fill(Infinity);
         const parent = new Int32Array(this.width * this.height).fill(0);
@@ -58,12 +105,12 @@ export class SeamFinder {
         for (let x = roiStart; x <= roiEnd; x++) {
             if (x >= 0 && x < this.width) {
                 // Se la maschera blocca l'inizio, è infinito
-                dist[x] = energyMap[x];
+                dist[rowStart * this.width + x] = energyMap[rowStart * this.width + x];
             }
         }
 
         // DP
-        for (let y = 0; y < this.height - 1; y++) {
+        for (let y = rowStart; y < rowEnd; y++) {
             const rowOffset = y * this.width;
             const nextRowOffset = (y + 1) * this.width;
 
@@ -97,7 +144,7 @@ export class SeamFinder {
         let minCost = Infinity;
         let endX = -1;
 
-        const lastRowOffset = (this.height - 1) * this.width;
+        const lastRowOffset = rowEnd * this.width;
 
         // Cerchiamo l'uscita migliore
         for (let x = roiStart; x <= roiEnd; x++) {
@@ -108,16 +155,11 @@ export class SeamFinder {
             }
         }
 
-        if (endX === -1) {
-            // Fallback
-            console.warn("⚠️ Percorso impossibile nella guida. Uso linea retta fallback.");
-            const mid = Math.floor((roiStart + roiEnd) / 2);
-            return Array(this.height).fill(0).map((_, y) => ({ x: mid, y }));
-        }
+        if (endX === -1) return null;
 
         const path: { x: number, y: number }[] = [];
         let currX = endX;
-        for (let y = this.height - 1; y >= 0; y--) {
+        for (let y = rowEnd; y >= rowStart; y--) {
             path.push({ x: currX, y });
             // Look up parent for current pixel
             currX = parent[y * this.width + currX];
@@ -0,0 +1,81 @@
+import { WatershedSegmenter } from '../core/watershed/WatershedSegmenter';
+import { GradientOperator } from '../core/watershed/GradientOperators';
+
+/**
+ * Benchmark della segmentazione Watershed su HeightMap sintetiche (rilievo ondulato + rumore).
+ * Usage: ts-node benchWatershed.ts [size1 size2 ...] [--seeds N] [--runs N] [--gradient op] [--connectivity 4|8]
+ */
+
+// PRNG deterministico (mulberry32): i tempi sono confrontabili tra esecuzioni
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0; seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function syntheticHeightMap(size: number): Float32Array {
+  const random = mulberry32(size);
+  const grid = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const u = x / size, v = y / size;
+      grid[y * size + x] = 1.2
+        + 0.8 * Math.sin(u * 9.1) * Math.cos(v * 7.3)
+        + 0.3 * Math.sin((u + v) * 31)
+        + 0.05 * random();
+    }
+  }
+  return grid;
+}
+
+function gridSeeds(size: number, perSide: number) {
+  const seeds: { x: number, y: number, label: number }[] = [];
+  let label = 1;
+  for (let j = 0; j < perSide; j++) {
+    for (let i = 0; i < perSide; i++) {
+      seeds.push({ x: Math.floor((i + 0.5) * size / perSide), y: Math.floor((j + 0.5) * size / perSide), label: label++ });
+    }
+  }
+  return seeds;
+}
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: string) => {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : fallback;
+};
+const seedsPerSide = parseInt(option('--seeds', '3'));
+const runs = parseInt(option('--runs', '3'));
+const gradient = option('--gradient', 'maxdiff') as GradientOperator;
+const connectivity = parseInt(option('--connectivity', '4')) as 4 | 8;
+const sizes = args.filter((a, i) => !a.startsWith('--') && !(i > 0 && args[i - 1].startsWith('--'))).map(Number);
+if (sizes.length === 0) sizes.push(250, 500, 1000, 2000);
+
+console.log(`Watershed benchmark: ${seedsPerSide * seedsPerSide} seeds, gradient ${gradient}, connectivity ${connectivity}, best of ${runs} runs`);
+console.log(`${'grid'.padStart(11)} ${'pixels'.padStart(10)} ${'gradient'.padStart(10)} ${'segment'.padStart(10)} ${'Mpx/s'.padStart(8)}`);
+
+for (const size of sizes) {
+  const heightMap = syntheticHeightMap(size);
+  const seeds = gridSeeds(size, seedsPerSide);
+  let bestGradient = Infinity, bestSegment = Infinity;
+
+  for (let r = 0; r < runs; r++) {
+    const t0 = process.hrtime.bigint();
+    const segmenter = new WatershedSegmenter(size, size, heightMap, { gradient, connectivity });
+    const t1 = process.hrtime.bigint();
+    segmenter.segment(seeds);
+    const t2 = process.hrtime.bigint();
+    bestGradient = Math.min(bestGradient, Number(t1 - t0) / 1e6);
+    bestSegment = Math.min(bestSegment, Number(t2 - t1) / 1e6);
+  }
+
+  const pixels = size * size;
+  console.log(
+    `${`${size}x${size}`.padStart(11)} ${pixels.toString().padStart(10)} ` +
+    `${`${bestGradient.toFixed(0)}ms`.padStart(10)} ${`${bestSegment.toFixed(0)}ms`.padStart(10)} ` +
+    `${(pixels / bestSegment / 1000).toFixed(2).padStart(8)}`
+  );
+}
@@ -1,17 +1,12 @@
 
 import fs from 'fs';
 import path from 'path';
+import { StlReader } from '../core/mesh/StlReader';
 
 /**
- * Legge un file STL binario e calcola statistiche.
- */
-/**
- * Legge un file STL binario e calcola statistiche.
+ * Legge un file STL (binario o ASCII) e calcola statistiche.
  */
 function parseSTL(filePath: string) {
-  const buf = fs.readFileSync(filePath);
-  const triCount = buf.readUInt32LE(80);
-
   let minX = Infinity, maxX = -Infinity;
   let minY = Infinity, maxY = -Infinity;
   let minZ = Infinity, maxZ = -Infinity;
@@ -25,25 +20,10 @@ function parseSTL(filePath: string) {
 
   const points: { x: number, y: number }[] = [];
 
-  const offset = 84;
-  for (let i = 0; i < triCount; i++) {
-    const base = offset + i * 50;
-
-    // Read vertices
-    const v1x = buf.readFloatLE(base + 12);
-    const v1y = buf.readFloatLE(base + 16);
-    const v1z = buf.readFloatLE(base + 20);
-
-    const v2x = buf.readFloatLE(base + 24);
-    const v2y = buf.readFloatLE(base + 28);
-    const v2z = buf.readFloatLE(base + 32);
-
-    const v3x = buf.readFloatLE(base + 36);
-    const v3y = buf.readFloatLE(base + 40);
-    const v3z = buf.readFloatLE(base + 44);
-
+  let i = 0;
+  const triCount = StlReader.forEachTriangleInFile(filePath, (v) => {
     // Bounds & Center
-    const vs = [[v1x, v1y, v1z], [v2x, v2y, v2z], [v3x, v3y, v3z]];
+    const vs = [[v[0], v[1], v[2]], [v[3], v[4], v[5]], [v[6], v[7], v[8]]];
     for (const [x, y, z] of vs) {
       if (x < minX) minX = x; if (x > maxX) maxX = x;
       if (y < minY) minY = y; if (y > maxY) maxY = y;
@@ -52,10 +32,11 @@ function parseSTL(filePath: string) {
     }
 
     // Collect points for density
-    if (i % 10 === 0) points.push({ x: v1x, y: v1y });
+    if (i % 10 === 0) points.push({ x: v[0], y: v[1] });
+    i++;
 
     // Edge Counting
-    const keys = vs.map(v => pk(v[0], v[1], v[2]));
+    const keys = vs.map(p => pk(p[0], p[1], p[2]));
     const addEdge = (k1: string, k2: string) => {
       if (k1 === k2) return;
       const key = k1 < k2 ? `${k1}|${k2}` : `${k2}|${k1}`;
@@ -64,7 +45,7 @@ function parseSTL(filePath: string) {
     addEdge(keys[0], keys[1]);
     addEdge(keys[1], keys[2]);
     addEdge(keys[2], keys[0]);
-  }
+  });
 
   const vertexCount = triCount * 3;
   const center = {
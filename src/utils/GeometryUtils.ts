@@ -11,6 +11,16 @@ export type IntersectionResult = {
   u?: number; // Parametro (0..1) sul secondo segmento
 };
 
+/**
+ * Rettangolo orientato: `angle` (gradi) è la rotazione del lato `width` rispetto all'asse X
+ */
+export type OrientedRect = {
+  center: Point2D;
+  width: number;
+  height: number;
+  angle: number;
+};
+
 export class GeometryUtils {
   /**
    * Calcola intersezione tra due segmenti AB e CD in 2D (XY plane)
@@ -94,4 +104,68 @@ export class GeometryUtils {
     const d3 = Math.hypot(t[2].x - t[0].x, t[2].y - t[0].y, t[2].z - t[0].z);
     return Math.max(d1, d2, d3);
   }
+
+  /**
+   * Inviluppo convesso (monotone chain), in senso antiorario, senza punti collineari
+   */
+  static convexHull(points: Point2D[]): Point2D[] {
+    if (points.length < 3) return points.slice();
+    const sorted = points.slice().sort((a, b) => a.x - b.x || a.y - b.y);
+    const cross = (o: Point2D, a: Point2D, b: Point2D) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+    const lower: Point2D[] = [];
+    for (const p of sorted) {
+      while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+      lower.push(p);
+    }
+    const upper: Point2D[] = [];
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      const p = sorted[i];
+      while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+      upper.push(p);
+    }
+    lower.pop();
+    upper.pop();
+    return lower.concat(upper);
+  }
+
+  /**
+   * Rettangolo di area minima che contiene i punti (rotating calipers sull'inviluppo convesso:
+   * uno dei lati del rettangolo ottimo giace su un lato dell'inviluppo).
+   */
+  static minAreaRect(points: Point2D[]): OrientedRect {
+    const hull = this.convexHull(points);
+    if (hull.length === 0) return { center: { x: 0, y: 0 }, width: 0, height: 0, angle: 0 };
+
+    let best: OrientedRect | null = null;
+    let bestArea = Infinity;
+    for (let i = 0; i < hull.length; i++) {
+      const a = hull[i], b = hull[(i + 1) % hull.length];
+      const len = Math.hypot(b.x - a.x, b.y - a.y);
+      if (len === 0) continue;
+      const ux = (b.x - a.x) / len, uy = (b.y - a.y) / len;
+
+      // Proiezioni sugli assi (u, n) del lato corrente
+      let minU = Infinity, maxU = -Infinity, minN = Infinity, maxN = -Infinity;
+      for (const p of hull) {
+        const pu = p.x * ux + p.y * uy;
+        const pn = -p.x * uy + p.y * ux;
+        if (pu < minU) minU = pu; if (pu > maxU) maxU = pu;
+        if (pn < minN) minN = pn; if (pn > maxN) maxN = pn;
+      }
+      const area = (maxU - minU) * (maxN - minN);
+      if (area < bestArea) {
+        bestArea = area;
+        const cu = (minU + maxU) / 2, cn = (minN + maxN) / 2;
+        best = {
+          center: { x: cu * ux - cn * uy, y: cu * uy + cn * ux },
+          width: maxU - minU,
+          height: maxN - minN,
+          angle: Math.atan2(uy, ux) * 180 / Math.PI
+        };
+      }
+    }
+    // Punti tutti coincidenti
+    return best ?? { center: { ...hull[0] }, width: 0, height: 0, angle: 0 };
+  }
 }
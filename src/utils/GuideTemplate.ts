@@ -0,0 +1,74 @@
+import fs from 'fs';
+import { Layout, LayoutGenerator, LayoutKind } from '../core/LayoutGenerator';
+import { SvgPathParser } from '../core/SvgPathParser';
+
+export type GuideTemplateOptions = {
+  /** Dimensioni del modello in mm (dimensioni della pagina) */
+  width: number;
+  height: number;
+  /** Anteprima (PNG) della HeightMap usata come sfondo */
+  background: Buffer;
+  /** Linee dell'auto-tiling già disegnate per questo piatto (layout 'grid' di default, o uno già scelto da LayoutPlanner) */
+  autoLines?: { bedWidth: number, bedHeight: number, strokeWidth: number, layout?: LayoutKind | Layout };
+};
+
+// Layer letti da GuideParser, nell'ordine in cui compaiono in Inkscape (dal basso)
+const GUIDE_LAYERS: { id: string, style: string }[] = [
+  { id: 'no-cut', style: 'fill:#ff0000;fill-opacity:0.35;stroke:none' },
+  { id: 'keep-together', style: 'fill:#00c8ff;fill-opacity:0.35;stroke:none' },
+  { id: 'cuts-vertical', style: 'fill:none;stroke:#ff3030;stroke-opacity:0.6;stroke-linecap:round' },
+  { id: 'cuts-horizontal', style: 'fill:none;stroke:#3080ff;stroke-opacity:0.6;stroke-linecap:round' },
+  { id: 'cuts-free', style: 'fill:none;stroke:#ff9900;stroke-opacity:0.8;stroke-width:0.5' },
+  { id: 'seeds', style: 'fill:#ffffff;stroke:#000000;stroke-width:0.5' }
+];
+
+/**
+ * Guida SVG pronta da modificare in Inkscape: pagina in mm grande quanto il modello (GuideParser la riporta
+ * in pixel HeightMap), anteprima della HeightMap come layer di sfondo bloccato e un layer vuoto per ogni tipo di guida.
+ */
+export class GuideTemplate {
+
+  static build(options: GuideTemplateOptions): string {
+    const { width, height } = options;
+    const href = `data:image/png;base64,${options.background.toString('base64')}`;
+
+    const content = new Map<string, string[]>();
+    if (options.autoLines) {
+      const { bedWidth, bedHeight, strokeWidth, layout } = options.autoLines;
+      // Stessa riserva del comando principale: il seam può scostarsi di mezzo tratto da ogni linea
+      const { verticals, horizontals } = typeof layout === 'object'
+        ? layout
+        : LayoutGenerator.generate(layout ?? 'grid', width, height, bedWidth, bedHeight, undefined, strokeWidth / 2);
+      const sw = strokeWidth.toFixed(2);
+      const path = (line: { x: number, y: number }[]) => {
+        const d = SvgPathParser.fromPoints(line.map(p => ({ x: +p.x.toFixed(2), y: +p.y.toFixed(2) })), false);
+        return `<path d="${d}" style="stroke-width:${sw}" />`;
+      };
+      content.set('cuts-vertical', verticals.map(path));
+      content.set('cuts-horizontal', horizontals.map(path));
+    }
+
+    const layers = GUIDE_LAYERS.map(l => [
+      `  <g id="${l.id}" inkscape:groupmode="layer" inkscape:label="${l.id}" style="${l.style}">`,
+      ...(content.get(l.id) ?? []).map(e => `    ${e}`),
+      `  </g>`
+    ].join('\n'));
+
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"`,
+      `     xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" xmlns:sodipodi="http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd"`,
+      `     width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">`,
+      `  <g id="background" inkscape:groupmode="layer" inkscape:label="background" sodipodi:insensitive="true">`,
+      `    <image x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="none" href="${href}" xlink:href="${href}" />`,
+      `  </g>`,
+      ...layers,
+      `</svg>`,
+      ``
+    ].join('\n');
+  }
+
+  static write(outPath: string, options: GuideTemplateOptions) {
+    fs.writeFileSync(outPath, this.build(options));
+  }
+}
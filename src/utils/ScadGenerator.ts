@@ -5,6 +5,17 @@ import util from 'util';
 
 const execPromise = util.promisify(exec);
 
+/**
+ * Posizionamento del tile nel frame dell'STL originale.
+ * OpenSCAD importa la pagina SVG con l'angolo in basso a sinistra nell'origine: (x, y) è il punto mondo
+ * corrispondente a quell'angolo, minZ/maxZ limitano l'estrusione all'altezza reale del modello.
+ */
+export type TilePlacement = {
+  x: number, y: number, minZ: number, maxZ: number,
+  // Rotazione sul piatto (gradi antiorari attorno a center, coordinate mondo) applicata al tile finito
+  rotation?: { angle: number, center: { x: number, y: number } }
+};
+
 export class ScadGenerator {
   private openscadPath: string;
 
@@ -19,22 +30,37 @@ export class ScadGenerator {
     originalStlPath: string,
     tileSvgPath: string,
     outputStlPath: string,
-    extrusionHeight: number = 100
+    placement: TilePlacement
   ): Promise<void> {
     // Usa percorsi assoluti per evitare problemi con OpenSCAD
     const absStlPath = path.resolve(originalStlPath).replace(/\\/g, '/');
     const absSvgPath = path.resolve(tileSvgPath).replace(/\\/g, '/');
     const absOutPath = path.resolve(outputStlPath).replace(/\\/g, '/');
 
+    // Margine di 1mm sopra e sotto per non tagliare le facce piane a minZ/maxZ
+    const zStart = placement.minZ - 1;
+    const extrusionHeight = (placement.maxZ - placement.minZ) + 2;
+
     // Crea il contenuto dello script SCAD
-    const scadContent = `
+    let scadContent = `
 intersection() {
     import("${absStlPath}");
-    linear_extrude(height = ${extrusionHeight})
-        import("${absSvgPath}");
+    translate([${placement.x}, ${placement.y}, ${zStart}])
+        linear_extrude(height = ${extrusionHeight})
+            import("${absSvgPath}");
 }
 `;
 
+    // Il tile esce già orientato per lo slicer, ruotato sul posto
+    const rotation = placement.rotation;
+    if (rotation && rotation.angle !== 0) {
+      const { x: cx, y: cy } = rotation.center;
+      scadContent = `
+translate([${cx}, ${cy}, 0])
+rotate([0, 0, ${rotation.angle}])
+translate([${-cx}, ${-cy}, 0])` + scadContent;
+    }
+
     // Scrivi file temporaneo .scad
     const tempScadPath = absOutPath.replace(/\.stl$/i, '.scad');
     fs.writeFileSync(tempScadPath, scadContent);
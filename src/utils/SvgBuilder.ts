@@ -38,6 +38,32 @@ export class SvgBuilder {
         );
     }
 
+    addLabel(x: number, y: number, text: string, color: string = 'white') {
+        this.elements.push(
+            `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" fill="${color}" font-size="8" font-family="sans-serif" text-anchor="middle">${text}</text>`
+        );
+    }
+
+    /**
+     * Disegna le celle a 1 di una maschera (es. linee di watershed) come rettangoli pieni,
+     * unendo le celle consecutive di ogni riga in un unico segmento.
+     */
+    addPixelMask(mask: Uint8Array, width: number, height: number, scaleX: number, scaleY: number, color: string = 'magenta') {
+        const parts: string[] = [];
+        for (let y = 0; y < height; y++) {
+            let x = 0;
+            while (x < width) {
+                if (!mask[y * width + x]) { x++; continue; }
+                const start = x;
+                while (x < width && mask[y * width + x]) x++;
+                const w = (x - start) * scaleX;
+                parts.push(`M ${(start * scaleX).toFixed(2)} ${(y * scaleY).toFixed(2)} h ${w.toFixed(2)} v ${scaleY.toFixed(2)} h ${(-w).toFixed(2)} z`);
+            }
+        }
+        if (parts.length === 0) return;
+        this.elements.push(`<path d="${parts.join(' ')}" fill="${color}" stroke="none" opacity="0.8" />`);
+    }
+
     save(filename: string) {
         const svgBody = `
         <svg width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}" xmlns="http://www.w3.org/2000/svg">
@@ -1,296 +1,267 @@
 import fs from 'fs';
 import { Point } from '../core/GuideParser';
+import { TileFitResult, TileOrientation } from '../core/TileOrientation';
+import { PlanarArrangement } from '../core/PlanarArrangement';
 import path from 'path';
 
-// Helper for loose intersection
-function getPolylineIntersection(metrics: { width: number, height: number }, vPath: Point[], hPath: Point[]): Point {
-  // Brute force segment-segment intersection
-  // vPath is mostly vertical, hPath is mostly horizontal.
-  // They MUST intersect once essentially.
-
-  // Quick check: Intersect logic
-  // We assume segments are p1->p2
-
-  for (let i = 0; i < vPath.length - 1; i++) {
-    const p1 = vPath[i];
-    const p2 = vPath[i + 1];
-
-    for (let j = 0; j < hPath.length - 1; j++) {
-      const p3 = hPath[j];
-      const p4 = hPath[j + 1];
-
-      // Standard line-line intersection
-      const denom = (p4.y - p3.y) * (p2.x - p1.x) - (p4.x - p3.x) * (p2.y - p1.y);
-
-      if (denom === 0) continue; // Parallel
-
-      const ua = ((p4.x - p3.x) * (p1.y - p3.y) - (p4.y - p3.y) * (p1.x - p3.x)) / denom;
-      const ub = ((p2.x - p1.x) * (p1.y - p3.y) - (p2.y - p1.y) * (p1.x - p3.x)) / denom;
-
-      if (ua >= 0 && ua <= 1 && ub >= 0 && ub <= 1) {
-        return {
-          x: p1.x + ua * (p2.x - p1.x),
-          y: p1.y + ua * (p2.y - p1.y)
-        };
-      }
+/**
+ * Coordinate mondo (mm) dell'angolo in alto a sinistra del layout: (minX, maxY) della mesh.
+ */
+export type TileOrigin = { x: number, y: number };
+
+/**
+ * Tile scritto su disco. `orientation` (in coordinate mondo) è presente se è stato indicato il piatto:
+ * è la rotazione con cui il tile entra nel piatto (0 se ci entra già).
+ */
+export type ExportedTile = { path: string, orientation: TileFitResult | null };
+
+export type BedSize = { width: number, height: number };
+
+/**
+ * Tile ricavato dai tagli e non ancora scritto: path nel frame del layout e orientamento sul piatto (se indicato).
+ */
+export type CutTile = { id: string, d: string, orientation: TileFitResult | null };
+
+/**
+ * Opzioni dei tagli per `arrangePaths`: tagli liberi (diagonali, curvi) oltre a verticali e orizzontali,
+ * e distanza (mm) entro cui un taglio che si ferma vicino a un altro viene agganciato.
+ */
+export type CutOptions = { free?: Point[][], snapTolerance?: number };
+
+// Coordinata dell'altro asse dove la spezzata attraversa `value` (x per i tagli orizzontali, y per i verticali)
+function crossingAt(path: Point[], axis: 'x' | 'y', value: number): number | null {
+  const other = axis === 'x' ? 'y' : 'x';
+  for (let i = 0; i + 1 < path.length; i++) {
+    const a = path[i], b = path[i + 1];
+    if ((a[axis] <= value && value <= b[axis]) || (b[axis] <= value && value <= a[axis])) {
+      const t = b[axis] === a[axis] ? 0 : (value - a[axis]) / (b[axis] - a[axis]);
+      return a[other] + t * (b[other] - a[other]);
     }
   }
-
-  // Should not happen for full-span paths, but if it does (e.g. at edges), clamp?
-  // If hPath is at y=0, and vPath crosses 0, it intersects.
-  // But if paths are mathematical lines...
-  // Let's return a sensible default if not found?
-  // Or warn.
-  return { x: 0, y: 0 };
+  return null;
 }
 
-// Extract sub-path between two points on the polyline
-// Warning: start and end MUST be ON the polyline (or close enough)
-// and we assume monotonic progression for simplicity, but real paths are monotonic.
-function getSubPath(path: Point[], start: Point, end: Point, isHorizontal: boolean): Point[] {
-  const result: Point[] = [start];
-
-  // Determine bounds
-  let minV: number, maxV: number, primaryAxis: 'x' | 'y';
-  if (isHorizontal) {
-    primaryAxis = 'x';
-    minV = Math.min(start.x, end.x);
-    maxV = Math.max(start.x, end.x);
-  } else {
-    primaryAxis = 'y';
-    minV = Math.min(start.y, end.y);
-    maxV = Math.max(start.y, end.y);
-  }
-
-  // Collect intermediate points strictly between limits
-  // We iterate through path.
-  // NOTE: Path points might slightly zigzag, but generally flow.
-  // We check if point is "between" start and end along the primary axis.
-  for (const p of path) {
-    const val = p[primaryAxis];
-    // Epsilon to avoid duplicating start/end if they match exactly logic
-    if (val > minV + 0.001 && val < maxV - 0.001) {
-      result.push(p);
+// Estremi interni dei tagli di una famiglia (`axis`: asse lungo cui avanzano), prolungati lungo l'asse fino al primo
+// taglio dell'altra famiglia davanti a loro entro `reach`. L'aggancio di PlanarArrangement va al punto più vicino e
+// sposterebbe l'estremo di lato, allargando il tile oltre lo scarto del seam. Un estremo che ha appena attraversato
+// un taglio (più vicino a lui che all'altro estremo) sborda oltre la giunzione e resta com'è: ci pensa la potatura
+function extendEnds(paths: Point[][], others: Point[][], axis: 'x' | 'y', size: number, reach: number): Point[][] {
+  const cross = axis === 'x' ? 'y' : 'x';
+  const eps = 1e-6 * Math.max(size, 1);
+  return paths.map(path => {
+    if (path.length < 2) return path;
+    const result = [...path];
+    for (const end of [0, 1]) {
+      const p = end === 0 ? path[0] : path[path.length - 1];
+      const from = (end === 0 ? path[path.length - 1] : path[0])[axis];
+      const at = p[axis];
+      if (at <= eps || at >= size - eps) continue;
+      const dir = Math.sign(at - from);
+      let ahead: number | null = null;
+      let overshoot = false;
+      for (const other of others) {
+        const c = crossingAt(other, cross, p[cross]);
+        if (c === null || Math.abs(c - at) > reach) continue;
+        const delta = (c - at) * dir;
+        if (delta > eps) {
+          if (ahead === null || delta < (ahead - at) * dir) ahead = c;
+        } else if ((c - from) * dir > 0 && Math.abs(c - at) < Math.abs(c - from)) {
+          overshoot = true;
+        }
+      }
+      if (overshoot || ahead === null) continue;
+      const q = axis === 'y' ? { x: p.x, y: ahead } : { x: ahead, y: p.y };
+      if (end === 0) result.unshift(q);
+      else result.push(q);
     }
-  }
-
-  result.push(end);
-
-  // Sort logic: We want order from 'start' to 'end'.
-  // Result is currently [start, ...intermediates(sorted by path index?), end]
-  // If 'path' goes Left->Right, intermediates are L->R.
-  // If 'start' is Left, 'end' is Right: Good.
-  // If 'start' is Right, 'end' is Left: Bad. Intermediates are wrong order?
-  // No, existing order in 'path' is preserved.
-  // If 'path' is increasing X.
-  // And Start.x > End.x.
-  // Then intermediates are increasing X.
-  // So [Start (High X), ...Intermediates(Low->High), End (Low X)] -> Messy.
-
-  // Correct approach: 
-  // Filter points based on Path Index? simpler.
-  // But determining "Index" of an intersection point is hard (it's between indices).
-
-  // Robust approach: Sort all points (start, end, intermediates) by projected distance along the line?
-  // For Horizontal: Sort by X.
-  // For Vertical: Sort by Y.
-
-  result.sort((a, b) => a[primaryAxis] - b[primaryAxis]);
+    return result;
+  });
+}
 
-  // Now result is ordered Low->High.
-  // If start > end, reverse it.
-  if (start[primaryAxis] > end[primaryAxis]) {
-    result.reverse();
+function centroid(loop: Point[]): Point {
+  let area = 0, cx = 0, cy = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const p = loop[i], q = loop[(i + 1) % loop.length];
+    const cross = p.x * q.y - q.x * p.y;
+    area += cross;
+    cx += (p.x + q.x) * cross;
+    cy += (p.y + q.y) * cross;
   }
+  if (area === 0) return loop[0];
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+}
 
-  return result;
+function loopPath(loop: Point[]): string {
+  let d = `M ${loop[0].x.toFixed(2)} ${loop[0].y.toFixed(2)} `;
+  for (let k = 1; k < loop.length; k++) {
+    d += `L ${loop[k].x.toFixed(2)} ${loop[k].y.toFixed(2)} `;
+  }
+  return d + "Z";
 }
 
 
 export class SvgExporter {
 
-  public static async generateFromPaths(
+  /**
+   * Tile dai tagli: le facce dell'arrangiamento planare (PlanarArrangement) di tutti i tagli.
+   * I tagli possono essere parziali e finire su altri tagli (giunzioni a T), quindi oltre alla griglia
+   * sono possibili layout sfalsati; i tagli che non chiudono nessun tile vengono ignorati con un avviso.
+   * Nome `tile_r<riga>_c<colonna>`: tagli orizzontali sopra e verticali a sinistra del baricentro
+   * (con un suffisso se più tile cadono nella stessa cella, es. divisi da un taglio libero).
+   * Con il piatto ogni tile ha già il suo orientamento: i fuori misura si controllano prima di scrivere (`bedFitReport`).
+   */
+  public static arrangePaths(
     vPaths: Point[][],
     hPaths: Point[][],
     width: number,
     height: number,
-    outputPath: string
-  ) {
-    console.log(`\n--- SVG Export (From Cut Paths) ---`);
-    console.log(`Grid: ${hPaths.length + 1} Rows x ${vPaths.length + 1} Cols`);
-
-    // 1. Build Boundaries
-    const allHPaths = [
-      [{ x: 0, y: 0 }, { x: width, y: 0 }],          // Top Edge
-      ...hPaths,
-      [{ x: 0, y: height }, { x: width, y: height }] // Bottom Edge
-    ];
-
-    const allVPaths = [
-      [{ x: 0, y: 0 }, { x: 0, y: height }],         // Left Edge
-      ...vPaths,
-      [{ x: width, y: 0 }, { x: width, y: height }]  // Right Edge
-    ];
-
-    // 2. Compute Intersections Grid [Row][Col]
-    // This grid represents the "Knots" of the net.
-    const knots: Point[][] = [];
-
-    for (let r = 0; r < allHPaths.length; r++) {
-      const rowKnots: Point[] = [];
-      for (let c = 0; c < allVPaths.length; c++) {
-        const pt = getPolylineIntersection({ width, height }, allVPaths[c], allHPaths[r]);
-        rowKnots.push(pt);
-      }
-      knots.push(rowKnots);
+    origin: TileOrigin = { x: 0, y: height },
+    bed?: BedSize,
+    cuts: CutOptions = {}
+  ): CutTile[] {
+    console.log(`\n--- Tiles From Cut Paths ---`);
+    const free = cuts.free ?? [];
+    console.log(`Cuts: ${vPaths.length} vertical, ${hPaths.length} horizontal${free.length > 0 ? `, ${free.length} free` : ''}`);
+
+    // Schegge tra seam che si incrociano vicino al bordo: fino a un triangolo con cateti di 2 * snapTolerance
+    // (ogni seam si sposta al massimo di tanto dalla guida) si uniscono al tile vicino. Con una ricerca larga
+    // rispetto al modello quel triangolo è grande quanto un tile vero: mai oltre l'1% del modello
+    const snap = cuts.snapTolerance ?? 0;
+    const verticals = snap > 0 ? extendEnds(vPaths, hPaths, 'y', height, snap) : vPaths;
+    const horizontals = snap > 0 ? extendEnds(hPaths, vPaths, 'x', width, snap) : hPaths;
+    const arrangement = PlanarArrangement.build([...verticals, ...horizontals, ...free], width, height, {
+      snapTolerance: snap, mergeArea: snap > 0 ? Math.min(2 * snap * snap, 0.01 * width * height) : undefined
+    });
+    if (arrangement.danglingCuts.length > 0) {
+      // Solo i tagli scartati per intero: il pezzo di seam che sborda oltre una giunzione a T viene potato in silenzio
+      const names = arrangement.danglingCuts.map(k => k < vPaths.length ? `verticale ${k + 1}`
+        : k < vPaths.length + hPaths.length ? `orizzontale ${k - vPaths.length + 1}` : `libero ${k - vPaths.length - hPaths.length + 1}`);
+      console.warn(`⚠️  ${names.length} tagli non chiudono nessun tile (non raggiungono altri tagli o il bordo): ignorati (${names.join(', ')}).`);
     }
+    console.log(`Tiles: ${arrangement.faces.length}`);
+
+    // Ordine di lettura: per riga, poi per colonna
+    const tiles = arrangement.faces.map(face => {
+      const c = centroid(face.outer);
+      const row = hPaths.filter(p => { const y = crossingAt(p, 'x', c.x); return y !== null && y < c.y; }).length;
+      const col = vPaths.filter(p => { const x = crossingAt(p, 'y', c.y); return x !== null && x < c.x; }).length;
+      return { face, row, col, c };
+    }).sort((a, b) => a.row - b.row || a.col - b.col || a.c.y - b.c.y || a.c.x - b.c.x);
+
+    const used = new Map<string, number>();
+    return tiles.map(tile => {
+      const base = `tile_r${tile.row}_c${tile.col}`;
+      const n = (used.get(base) ?? 0) + 1;
+      used.set(base, n);
+      const id = n > 1 ? `${base}_${n}` : base;
+      const d = [tile.face.outer, ...tile.face.holes].map(loopPath).join(' ');
+      return { id, d, orientation: bed ? this.fit(tile.face.outer, origin, bed) : null };
+    });
+  }
 
-    // 3. Generate Tiles content
-    const explodedTiles: { svg: string, id: string }[] = [];
-    const GAP = 0; // add to exploded tiles to avoid overlapping
-
-    // Calculate ViewBox bounds
-    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-
-    // Iterate Cells
-    for (let r = 0; r < allHPaths.length - 1; r++) {
-      for (let c = 0; c < allVPaths.length - 1; c++) {
-
-        // Get corners of this cell from the knot grid
-        const tl = knots[r][c];
-        const tr = knots[r][c + 1];
-        const br = knots[r + 1][c + 1];
-        const bl = knots[r + 1][c];
-
-        // Extract precise edges from the actual paths
-        const topEdge = getSubPath(allHPaths[r], tl, tr, true);
-        const rightEdge = getSubPath(allVPaths[c + 1], tr, br, false);
-        const bottomEdge = getSubPath(allHPaths[r + 1], br, bl, true);
-        // Note: bottomEdge returned from getSubPath goes Left->Right (based on sorting).
-        // We need it Right->Left (BR -> BL).
-        // But getSubPath handles direction if we pass start=BR, end=BL?
-        // Yes, logic: if start > end, reverse.
-        // BR.x > BL.x (usually). So it should reverse correctly.
-
-        const leftEdge = getSubPath(allVPaths[c], bl, tl, false); // BL -> TL (Up). BL.y > TL.y. Reverse.
-
-        // Concatenate Loop
-        const loopPoints = [...topEdge, ...rightEdge, ...bottomEdge, ...leftEdge];
-
-        // Remove duplicates (Start of one is End of previous)
-        // Filter if dist < epsilon
-        const cleanLoop: Point[] = [];
-        if (loopPoints.length > 0) cleanLoop.push(loopPoints[0]);
-
-        for (let k = 1; k < loopPoints.length; k++) {
-          const last = cleanLoop[cleanLoop.length - 1];
-          const curr = loopPoints[k];
-          const d = (last.x - curr.x) ** 2 + (last.y - curr.y) ** 2;
-          if (d > 0.0001) cleanLoop.push(curr);
-        }
-
-        // Explode Shift
-        const shiftX = c * GAP;
-        const shiftY = r * GAP;
-
-        let d = `M ${(cleanLoop[0].x + shiftX).toFixed(2)} ${(cleanLoop[0].y + shiftY).toFixed(2)} `;
-        for (let k = 1; k < cleanLoop.length; k++) {
-          const p = cleanLoop[k];
-          d += `L ${(p.x + shiftX).toFixed(2)} ${(p.y + shiftY).toFixed(2)} `;
-
-          // Update global bounds
-          minX = Math.min(minX, p.x + shiftX);
-          maxX = Math.max(maxX, p.x + shiftX);
-          minY = Math.min(minY, p.y + shiftY);
-          maxY = Math.max(maxY, p.y + shiftY);
-        }
-        d += "Z";
-
-        explodedTiles.push({
-          svg: `<g id="tile_r${r}_c${c}">
-                    <path d="${d}" class="tile" />
-                </g>`, id: `tile_r${r}_c${c}`
-        });
-      }
-    }
-
-    // 4. Write File
-    const generatedFiles: string[] = [];
-    const m = 0; // increment for margin
-    const vbX = minX - m;
-    const vbY = minY - m;
-    const vbW = (maxX - minX) + m * 2;
-    const vbH = (maxY - minY) + m * 2;
-
-    // Fallback if empty
-    if (!isFinite(vbW)) { console.warn("SVG Bounds infinite?"); return []; }
-
-    for (const tile of explodedTiles) {
-      let svgContent = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vbX.toFixed(2)} ${vbY.toFixed(2)} ${vbW.toFixed(2)} ${vbH.toFixed(2)}" width="${vbW}mm" height="${vbH}mm" style="background-color:white">\n`;
-      svgContent += `<style> .tile { fill:#f0f0f0; stroke:none; } </style>\n`;
-      svgContent += tile.svg;
-      svgContent += `\n</svg>`;
-
-      const svgOut = path.join(outputPath, `${tile.id}.svg`);
-      fs.writeFileSync(svgOut, svgContent);
-      console.log(`💾 SVG Layout saved: ${svgOut}`);
-      generatedFiles.push(svgOut);
-    }
+  /** Report dei tile che non entrano nel piatto nemmeno ruotati, null se entrano tutti. */
+  public static bedFitReport(tiles: CutTile[], bed: BedSize): string | null {
+    const oversized = tiles.filter(t => t.orientation && !t.orientation.fits);
+    if (oversized.length === 0) return null;
+    const lines = [`${oversized.length} tile su ${tiles.length} non entrano nel piatto ${bed.width}x${bed.height}mm nemmeno ruotati:`];
+    for (const t of oversized) lines.push(`   - ${t.id}: ${t.orientation!.width.toFixed(1)}x${t.orientation!.height.toFixed(1)}mm`);
+    lines.push(`   Suggerimenti: riduci --search-width, sposta le guide o usa un piatto più grande.`);
+    return lines.join('\n');
+  }
 
-    return generatedFiles;
+  /** Scrive i tile di `arrangePaths`, annotati con la rotazione sul piatto. */
+  public static async generateFromPaths(
+    tiles: CutTile[],
+    width: number,
+    height: number,
+    outputPath: string,
+    origin: TileOrigin = { x: 0, y: height }
+  ): Promise<ExportedTile[]> {
+    console.log(`\n--- SVG Export (From Cut Paths) ---`);
+    return tiles.map(tile => {
+      if (tile.orientation) this.logRotation(tile.id, tile.orientation);
+      return { path: this.writeTileSvg(tile.id, tile.d, width, height, origin, outputPath, tile.orientation), orientation: tile.orientation };
+    });
   }
 
   public static async generateFromPolygons(
     polygons: Point[][],
     width: number,
     height: number,
-    outputPath: string
-  ): Promise<string[]> {
+    outputPath: string,
+    origin: TileOrigin = { x: 0, y: height },
+    bed?: BedSize,
+    // Nome di ogni tile (es. etichetta del seme nella guida), default tile_<indice>
+    names: (string | undefined)[] = []
+  ): Promise<ExportedTile[]> {
     console.log(`\n--- SVG Export (From Watershed Polygons) ---`);
     console.log(`Tiles: ${polygons.length}`);
 
-    const generatedFiles: string[] = [];
+    const generatedFiles: ExportedTile[] = [];
 
-    // Calculate Global Bounds
-    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    for (const poly of polygons) {
-      for (const p of poly) {
-        minX = Math.min(minX, p.x);
-        maxX = Math.max(maxX, p.x);
-        minY = Math.min(minY, p.y);
-        maxY = Math.max(maxY, p.y);
-      }
-    }
+    for (let i = 0; i < polygons.length; i++) {
+      const poly = polygons[i];
 
-    const m = 0;
-    const vbX = minX !== Infinity ? minX - m : 0;
-    const vbY = minY !== Infinity ? minY - m : 0;
-    const vbW = minX !== Infinity ? (maxX - minX) + m * 2 : width;
-    const vbH = minY !== Infinity ? (maxY - minY) + m * 2 : height;
+      const d = loopPath(poly);
 
-    // Fallback
-    if (!isFinite(vbW)) { console.warn("SVG Bounds infinite?"); return []; }
+      const id = `tile_${names[i] ?? i}`;
+      const orientation = bed ? this.orient(id, poly, origin, bed) : null;
+      generatedFiles.push({ path: this.writeTileSvg(id, d, width, height, origin, outputPath, orientation), orientation });
+    }
 
-    for (let i = 0; i < polygons.length; i++) {
-      const poly = polygons[i];
+    return generatedFiles;
+  }
 
-      let d = `M ${poly[0].x.toFixed(2)} ${poly[0].y.toFixed(2)} `;
-      for (let k = 1; k < poly.length; k++) {
-        d += `L ${poly[k].x.toFixed(2)} ${poly[k].y.toFixed(2)} `;
-      }
-      d += "Z";
+  /**
+   * Orientamento sul piatto, calcolato sul contorno in coordinate mondo (Y verso l'alto)
+   */
+  private static fit(loop: Point[], origin: TileOrigin, bed: BedSize): TileFitResult {
+    const world = loop.map(p => ({ x: origin.x + p.x, y: origin.y - p.y }));
+    return TileOrientation.fit(world, bed.width, bed.height);
+  }
 
-      let svgContent = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vbX.toFixed(2)} ${vbY.toFixed(2)} ${vbW.toFixed(2)} ${vbH.toFixed(2)}" width="${vbW}mm" height="${vbH}mm" style="background-color:white">\n`;
-      svgContent += `<style> .tile { fill:#f0f0f0; stroke:none; } </style>\n`;
-      svgContent += `<g id="tile_${i}"> <path d="${d}" class="tile" /> </g>`;
-      svgContent += `\n</svg>`;
+  private static orient(id: string, loop: Point[], origin: TileOrigin, bed: BedSize): TileFitResult {
+    const orientation = this.fit(loop, origin, bed);
+    if (!orientation.fits) {
+      console.warn(`⚠️  ${id}: ${orientation.width.toFixed(1)}x${orientation.height.toFixed(1)}mm non entra nel piatto ${bed.width}x${bed.height}mm nemmeno ruotato`);
+    } else {
+      this.logRotation(id, orientation);
+    }
+    return orientation;
+  }
 
-      const svgOut = path.join(outputPath, `tile_${i}.svg`);
-      fs.writeFileSync(svgOut, svgContent);
-      console.log(`💾 SVG Layout saved: ${svgOut}`);
-      generatedFiles.push(svgOut);
+  private static logRotation(id: string, orientation: TileFitResult) {
+    if (orientation.angle !== 0) {
+      console.log(`   ↻ ${id}: ruotato di ${orientation.angle.toFixed(1)}° per entrare nel piatto`);
     }
+  }
 
-    return generatedFiles;
+  /**
+   * Scrive un tile in coordinate mondo.
+   * Il path è nel frame del layout (mm, origine in alto a sinistra, Y verso il basso); il gruppo lo trasforma
+   * in (X mondo, -Y mondo) e il viewBox copre esattamente l'estensione del modello, così la pagina SVG
+   * coincide con la bounding box XY della mesh ovunque sia posizionata.
+   * La rotazione sul piatto è solo annotata (`data-rotation`, gradi antiorari attorno a `data-rotation-center`
+   * in coordinate mondo): la geometria resta allineata all'STL e la rotazione viene applicata nello script SCAD.
+   */
+  private static writeTileSvg(
+    id: string, d: string, width: number, height: number, origin: TileOrigin, outputPath: string,
+    orientation: TileFitResult | null = null
+  ): string {
+    const vbX = origin.x;
+    const vbY = -origin.y;
+    const rotationAttrs = orientation
+      ? ` data-rotation="${orientation.angle.toFixed(3)}" data-rotation-center="${orientation.center.x.toFixed(3)} ${orientation.center.y.toFixed(3)}"`
+      : '';
+
+    let svgContent = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vbX.toFixed(3)} ${vbY.toFixed(3)} ${width.toFixed(3)} ${height.toFixed(3)}" width="${width}mm" height="${height}mm"${rotationAttrs} style="background-color:white">\n`;
+    svgContent += `<style> .tile { fill:#f0f0f0; fill-rule:evenodd; stroke:none; } </style>\n`;
+    svgContent += `<g id="${id}" transform="translate(${origin.x.toFixed(3)} ${(-origin.y).toFixed(3)})"> <path d="${d}" class="tile" /> </g>`;
+    svgContent += `\n</svg>`;
+
+    const svgOut = path.join(outputPath, `${id}.svg`);
+    fs.writeFileSync(svgOut, svgContent);
+    console.log(`💾 SVG Layout saved: ${svgOut}`);
+    return svgOut;
   }
 }
@@ -0,0 +1,86 @@
+import zlib from 'zlib';
+
+type ZipEntry = { name: string, method: number, compressedSize: number, localHeaderOffset: number };
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * Lettore ZIP minimale (solo lettura, metodi Stored/Deflate, niente ZIP64).
+ * Sufficiente per i container 3MF, che sono ZIP standard.
+ */
+export class ZipArchive {
+  private buffer: Buffer;
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+    this.readCentralDirectory();
+  }
+
+  static isZip(buffer: Buffer): boolean {
+    return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_SIGNATURE;
+  }
+
+  public list(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  public has(name: string): boolean {
+    return this.entries.has(this.normalize(name));
+  }
+
+  public read(name: string): Buffer {
+    const entry = this.entries.get(this.normalize(name));
+    if (!entry) throw new Error(`ZIP: voce non trovata "${name}"`);
+
+    const off = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(off) !== LOCAL_SIGNATURE) throw new Error(`ZIP: header locale corrotto per "${name}"`);
+    const nameLen = this.buffer.readUInt16LE(off + 26);
+    const extraLen = this.buffer.readUInt16LE(off + 28);
+    const dataStart = off + 30 + nameLen + extraLen;
+    const data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return zlib.inflateRawSync(data);
+    throw new Error(`ZIP: metodo di compressione ${entry.method} non supportato ("${name}")`);
+  }
+
+  public readText(name: string): string {
+    return this.read(name).toString('utf-8');
+  }
+
+  // Le path nei .rels sono assolute ("/3D/3dmodel.model"), nel central directory no
+  private normalize(name: string): string {
+    return name.replace(/^\/+/, '');
+  }
+
+  private readCentralDirectory() {
+    // End Of Central Directory: 22 bytes + commento opzionale (max 65535)
+    let eocd = -1;
+    const minPos = Math.max(0, this.buffer.length - 22 - 0xffff);
+    for (let i = this.buffer.length - 22; i >= minPos; i--) {
+      if (this.buffer.readUInt32LE(i) === EOCD_SIGNATURE) { eocd = i; break; }
+    }
+    if (eocd === -1) throw new Error("ZIP: End Of Central Directory non trovato (file troncato o non ZIP)");
+
+    const count = this.buffer.readUInt16LE(eocd + 10);
+    let off = this.buffer.readUInt32LE(eocd + 16);
+    if (count === 0xffff || off === 0xffffffff) throw new Error("ZIP: archivi ZIP64 non supportati");
+
+    for (let i = 0; i < count; i++) {
+      if (this.buffer.readUInt32LE(off) !== CENTRAL_SIGNATURE) throw new Error("ZIP: central directory corrotto");
+      const method = this.buffer.readUInt16LE(off + 10);
+      const compressedSize = this.buffer.readUInt32LE(off + 20);
+      const nameLen = this.buffer.readUInt16LE(off + 28);
+      const extraLen = this.buffer.readUInt16LE(off + 30);
+      const commentLen = this.buffer.readUInt16LE(off + 32);
+      const localHeaderOffset = this.buffer.readUInt32LE(off + 42);
+      const name = this.buffer.toString('utf-8', off + 46, off + 46 + nameLen);
+
+      this.entries.set(this.normalize(name), { name, method, compressedSize, localHeaderOffset });
+      off += 46 + nameLen + extraLen + commentLen;
+    }
+  }
+}
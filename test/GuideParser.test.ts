@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GuideParser } from '../src/core/GuideParser';
+
+// Scrive la guida in una cartella temporanea (unità utente = pixel HeightMap)
+const writeGuide = (body: string, width = 100, height = 100): string => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'guide-'));
+    const file = path.join(dir, 'guide.svg');
+    fs.writeFileSync(file, `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${body}</svg>`);
+    return file;
+};
+
+const rowCount = (mask: Uint8Array, width: number, y: number) => {
+    let n = 0;
+    for (let x = 0; x < width; x++) n += mask[y * width + x];
+    return n;
+};
+
+test('stroke-width: lo style inline vince sull\'attributo', () => {
+    const file = writeGuide(`<g id="cuts-vertical"><path d="M 50 0 V 100" stroke-width="20" style="fill:none;stroke-width:4" /></g>`);
+    const guides = GuideParser.parse(file, 100, 100);
+    assert.equal(guides.verticals.length, 1);
+    assert.equal(rowCount(guides.verticals[0], 100, 50), 4);
+});
+
+test('stroke-width: senza style vale l\'attributo', () => {
+    const file = writeGuide(`<g id="cuts-vertical"><path d="M 50 0 V 100" stroke-width="20" style="fill:none" /></g>`);
+    const guides = GuideParser.parse(file, 100, 100);
+    assert.equal(rowCount(guides.verticals[0], 100, 50), 20);
+});
+
+test('seeds: centri dei cerchi con etichetta da data-label o <title>, transform applicati', () => {
+    const file = writeGuide(`<g id="seeds" transform="translate(10 5)">
+        <circle cx="20" cy="30" r="2" data-label="angolo" />
+        <circle cx="50" cy="60" r="2"><title>centro</title></circle>
+        <ellipse cx="70" cy="10" rx="2" ry="3" />
+    </g>`);
+    const guides = GuideParser.parse(file, 100, 100);
+    assert.deepEqual(guides.seeds, [
+        { x: 30, y: 35, label: 'angolo' },
+        { x: 60, y: 65, label: 'centro' },
+        { x: 80, y: 15 }
+    ]);
+});
+
+test('keep-together: una maschera piena per ogni forma del layer', () => {
+    const file = writeGuide(`<g id="keep-together">
+        <rect x="10" y="10" width="20" height="10" />
+        <circle cx="70" cy="70" r="10" />
+    </g>`);
+    const guides = GuideParser.parse(file, 100, 100);
+    assert.equal(guides.keepTogether.length, 2);
+
+    const [rect, circle] = guides.keepTogether;
+    assert.equal(rect.reduce((n, v) => n + v, 0), 20 * 10);
+    assert.equal(rect[15 * 100 + 20], 1);
+    assert.equal(rect[70 * 100 + 70], 0);
+    assert.equal(circle[70 * 100 + 70], 1);
+    assert.equal(circle[70 * 100 + 79], 1);
+    assert.equal(circle[70 * 100 + 85], 0);
+});
+
+test('corridoi morbidi: data-corridor sceglie per il singolo path, falloff di default metà dello spessore', () => {
+    const file = writeGuide(`<g id="cuts-vertical" style="fill:none">
+        <path d="M 50 0 V 100" stroke-width="10" data-corridor="soft" />
+        <path d="M 20 0 V 100" stroke-width="10" data-corridor="soft" data-falloff="2" />
+        <path d="M 80 0 V 100" stroke-width="10" />
+    </g>`);
+    const guides = GuideParser.parse(file, 100, 100);
+    const [soft, custom, hard] = guides.verticalSoft;
+    assert.equal(hard, null);
+    assert.equal(custom!.falloff, 2);
+    assert.equal(soft!.falloff, 5);
+
+    const at = (x: number) => soft!.distance[50 * 100 + x];
+    assert.ok(at(50) <= 1);
+    assert.ok(Math.abs(at(60) - 10) <= 1);
+    // Oltre SOFT_CORRIDOR_RANGE * falloff la distanza non viene calcolata
+    assert.equal(at(70), Infinity);
+
+    // Con --soft-corridors tutti i path sono morbidi, tranne quelli marcati hard
+    const all = GuideParser.parse(writeGuide(`<g id="cuts-vertical">
+        <path d="M 50 0 V 100" stroke-width="10" />
+        <path d="M 80 0 V 100" stroke-width="10" data-corridor="hard" />
+    </g>`), 100, 100, { softCorridors: true });
+    assert.notEqual(all.verticalSoft[0], null);
+    assert.equal(all.verticalSoft[1], null);
+});
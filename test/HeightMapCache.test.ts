@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HeightMapCache } from '../src/core/HeightMapCache';
+import { HeightMapData } from '../src/core/HeightMapper';
+
+const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'hm-cache-'));
+
+const sampleMap = (): HeightMapData => ({
+    grid: Float32Array.from([0, 0.5, 1.25, 2, 3.5, 4]),
+    width: 3,
+    height: 2,
+    maxZ: 4,
+    bounds: { minX: -10, maxX: 5, minY: 2, maxY: 12, minZ: 0, maxZ: 4 }
+});
+
+test('la chiave dipende dal contenuto del file e dalla risoluzione, non dal nome', () => {
+    const dir = tempDir();
+    const a = path.join(dir, 'a.stl'), b = path.join(dir, 'b.stl');
+    fs.writeFileSync(a, 'solid uno');
+    fs.writeFileSync(b, 'solid uno');
+
+    assert.equal(HeightMapCache.key(a, 0.5), HeightMapCache.key(b, 0.5));
+    assert.notEqual(HeightMapCache.key(a, 0.5), HeightMapCache.key(a, 0.25));
+
+    fs.writeFileSync(b, 'solid due');
+    assert.notEqual(HeightMapCache.key(a, 0.5), HeightMapCache.key(b, 0.5));
+});
+
+test('miss su cache vuota, hit con la stessa chiave dopo save', () => {
+    const dir = tempDir();
+    const file = path.join(dir, 'model.stl');
+    fs.writeFileSync(file, 'solid model');
+    const cache = new HeightMapCache(path.join(dir, '.cache'));
+    const key = HeightMapCache.key(file, 0.5);
+
+    assert.equal(cache.load(key), null);
+
+    const data = sampleMap();
+    cache.save(key, 0.5, data);
+    const loaded = cache.load(key);
+    assert.ok(loaded);
+    assert.deepEqual(Array.from(loaded.grid), Array.from(data.grid));
+    assert.equal(loaded.width, 3);
+    assert.equal(loaded.height, 2);
+    assert.equal(loaded.maxZ, 4);
+    assert.deepEqual(loaded.bounds, data.bounds);
+
+    // Stessa mesh a un'altra risoluzione: voce diversa
+    assert.equal(cache.load(HeightMapCache.key(file, 0.25)), null);
+});
+
+test('modificare il file invalida la voce', () => {
+    const dir = tempDir();
+    const file = path.join(dir, 'model.stl');
+    fs.writeFileSync(file, 'solid model');
+    const cache = new HeightMapCache(path.join(dir, '.cache'));
+    cache.save(HeightMapCache.key(file, 0.5), 0.5, sampleMap());
+
+    fs.appendFileSync(file, '\nendsolid model');
+    assert.equal(cache.load(HeightMapCache.key(file, 0.5)), null);
+});
+
+test('una voce troncata viene ignorata', () => {
+    const dir = tempDir();
+    const cacheDir = path.join(dir, '.cache');
+    const cache = new HeightMapCache(cacheDir);
+    cache.save('troncata', 0.5, sampleMap());
+
+    const entry = path.join(cacheDir, fs.readdirSync(cacheDir)[0]);
+    fs.truncateSync(entry, fs.statSync(entry).size - 4);
+    assert.equal(cache.load('troncata'), null);
+});
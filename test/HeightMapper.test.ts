@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HeightMapper } from '../src/core/HeightMapper';
+import { MeshMetadata, MeshReader, ProgressCallback, TriangleVisitor, visitPositions } from '../src/core/mesh/MeshReader';
+
+/**
+ * Rilievo sinusoidale N x N celle da 1 mm (2 triangoli per cella): abbastanza triangoli
+ * da riempire più batch e distribuirli su tutti i worker.
+ */
+function reliefReader(n: number): MeshReader {
+    const z = (x: number, y: number) => 1 + Math.sin(x / 7) * Math.cos(y / 5) + ((x * 31 + y * 17) % 13) / 13;
+    const positions = new Float32Array(n * n * 2 * 9);
+    let o = 0;
+    const push = (x: number, y: number) => { positions[o++] = x; positions[o++] = y; positions[o++] = z(x, y); };
+    for (let y = 0; y < n; y++) {
+        for (let x = 0; x < n; x++) {
+            push(x, y); push(x + 1, y); push(x + 1, y + 1);
+            push(x, y); push(x + 1, y + 1); push(x, y + 1);
+        }
+    }
+    const metadata: MeshMetadata = { format: 'stl', materialGroups: [], materialRuns: [] };
+    return {
+        format: 'stl',
+        filePath: 'rilievo.stl',
+        forEachTriangle: (visitor: TriangleVisitor, onProgress?: ProgressCallback) => visitPositions(positions, visitor, onProgress),
+        getMetadata: () => metadata
+    };
+}
+
+test('la rasterizzazione parallela dà la stessa HeightMap di quella seriale', async () => {
+    const reader = reliefReader(150);
+    const serial = await HeightMapper.meshToGrid(reader, 0.5);
+    const parallel = await HeightMapper.meshToGrid(reader, 0.5, { jobs: 3 });
+
+    assert.equal(parallel.width, serial.width);
+    assert.equal(parallel.height, serial.height);
+    assert.equal(parallel.maxZ, serial.maxZ);
+    assert.deepEqual(parallel.bounds, serial.bounds);
+    assert.ok(serial.grid.some(v => v > 0));
+    for (let i = 0; i < serial.grid.length; i++) {
+        if (parallel.grid[i] !== serial.grid[i]) assert.fail(`cella ${i}: ${parallel.grid[i]} != ${serial.grid[i]}`);
+    }
+});
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LayerHeights } from '../src/core/LayerHeights';
+
+test('JSON: array o oggetto { layerHeights }, ordinati e senza duplicati', () => {
+    assert.deepEqual(LayerHeights.parse('[0.88, 0.48, 0.88]'), [0.48, 0.88]);
+    assert.deepEqual(LayerHeights.parse('{ "layerHeights": [1.28, "0.48"] }'), [0.48, 1.28]);
+    assert.throws(() => LayerHeights.parse('{ "heights": [1] }', 'q.json'), /q\.json/);
+});
+
+test('istruzioni di swap HueForge: quote tra parentesi', () => {
+    const text = [
+        'Start with Black',
+        'At layer #5 (0.48mm) swap to White',
+        'At layer #10 ( 0.88 mm ) swap to Red',
+        'At layer #15 (1.28MM) swap to Blue'
+    ].join('\n');
+    assert.deepEqual(LayerHeights.parse(text), [0.48, 0.88, 1.28]);
+});
+
+test('lista da CLI e valori non validi', () => {
+    assert.deepEqual(LayerHeights.fromList('0.88, 0.48;1.28 2'), [0.48, 0.88, 1.28, 2]);
+    assert.throws(() => LayerHeights.fromList('0.48,abc'), /Quota layer non valida/);
+    assert.throws(() => LayerHeights.fromList('-1'), /Quota layer non valida/);
+    assert.throws(() => LayerHeights.parse('nessuna quota qui'), /Nessuna quota layer/);
+});
+
+test('isolineMask marca le celle ai due lati di ogni quota attraversata', () => {
+    // Rampa lungo X: 0, 1, 2, 3 su due righe
+    const grid = new Float32Array([0, 1, 2, 3, 0, 1, 2, 3]);
+    assert.deepEqual(Array.from(LayerHeights.isolineMask(grid, 4, 2, [1.5])), [0, 1, 1, 0, 0, 1, 1, 0]);
+    assert.deepEqual(Array.from(LayerHeights.isolineMask(grid, 4, 2, [])), new Array(8).fill(0));
+});
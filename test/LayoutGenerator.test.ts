@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LAYOUT_KINDS, LayoutGenerator } from '../src/core/LayoutGenerator';
+import { PlanarArrangement } from '../src/core/PlanarArrangement';
+
+const EPS = 1e-6;
+
+// Modello x piatto (mm): più celle per lato, piatto più largo del modello, piatto rettangolare
+const CASES: [number, number, number, number][] = [
+    [300, 200, 100, 100],
+    [250, 180, 120, 90],
+    [80, 60, 100, 100],
+    [410, 130, 95, 140],
+    [500, 500, 180, 180]
+];
+
+test('ogni cella e ogni faccia dell\'arrangiamento entrano nel piatto', () => {
+    for (const kind of LAYOUT_KINDS) {
+        for (const [w, h, bedW, bedH] of CASES) {
+            const label = `${kind} ${w}x${h} su ${bedW}x${bedH}`;
+            const layout = LayoutGenerator.generate(kind, w, h, bedW, bedH);
+            assert.ok(layout.cellWidth <= bedW + EPS && layout.cellHeight <= bedH + EPS, `${label}: passo fuori piatto`);
+            for (const c of layout.cells) {
+                assert.ok(c.x1 - c.x0 <= bedW + EPS && c.y1 - c.y0 <= bedH + EPS, `${label}: cella fuori piatto`);
+                assert.ok(c.x0 >= -EPS && c.y0 >= -EPS && c.x1 <= w + EPS && c.y1 <= h + EPS, `${label}: cella fuori modello`);
+            }
+
+            const { faces } = PlanarArrangement.build([...layout.verticals, ...layout.horizontals], w, h);
+            for (const f of faces) {
+                const xs = f.outer.map(p => p.x), ys = f.outer.map(p => p.y);
+                assert.ok(Math.max(...xs) - Math.min(...xs) <= bedW + EPS, `${label}: faccia troppo larga`);
+                assert.ok(Math.max(...ys) - Math.min(...ys) <= bedH + EPS, `${label}: faccia troppo alta`);
+            }
+            assert.ok(Math.abs(faces.reduce((s, f) => s + f.area, 0) - w * h) < 1e-3 * w * h, `${label}: area persa`);
+        }
+    }
+});
+
+test('grid: un modello che entra nel piatto non ha tagli', () => {
+    const layout = LayoutGenerator.generate('grid', 80, 60, 100, 100);
+    assert.equal(layout.verticals.length + layout.horizontals.length, 0);
+    assert.equal(layout.cells.length, 1);
+});
+
+test('offset sposta i tagli senza cambiare il numero di celle', () => {
+    for (const kind of ['grid', 'brick'] as const) {
+        const base = LayoutGenerator.generate(kind, 300, 200, 110, 110);
+        const shifted = LayoutGenerator.generate(kind, 300, 200, 110, 110, { x: 5, y: -3 });
+        assert.equal(shifted.cells.length, base.cells.length, kind);
+        assert.equal(shifted.verticals.length, base.verticals.length, kind);
+        assert.notDeepEqual(shifted.verticals, base.verticals, kind);
+    }
+});
+
+test('la riserva per la deviazione del seam restringe le celle anche con il piatto appena più grande', () => {
+    for (const kind of ['hex', 'brick'] as const) {
+        // 240x180 su 121x121: senza riserva bastano due colonne da 120mm, con 2mm per lato no
+        const tight = LayoutGenerator.generate(kind, 240, 180, 121, 121);
+        const reserved = LayoutGenerator.generate(kind, 240, 180, 121, 121, undefined, 2);
+        assert.equal(tight.reserve, 0);
+        assert.equal(reserved.reserve, 2, kind);
+        assert.ok(tight.cellWidth > 117, kind);
+        assert.ok(reserved.cellWidth <= 117 + EPS && reserved.cellHeight <= 117 + EPS, `${kind}: riserva non applicata`);
+        // Un seam che devia di tutta la riserva da entrambi i lati lascia il tile nel piatto
+        for (const c of reserved.cells) {
+            assert.ok(c.x1 - c.x0 + 2 * reserved.reserve <= 121 + EPS && c.y1 - c.y0 + 2 * reserved.reserve <= 121 + EPS, kind);
+        }
+        assert.ok(reserved.cells.length > tight.cells.length, kind);
+    }
+    assert.throws(() => LayoutGenerator.generate('grid', 240, 180, 121, 121, undefined, 61), /troppo piccolo/);
+});
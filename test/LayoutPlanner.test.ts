@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HeightMapData } from '../src/core/HeightMapper';
+import { LayoutPlanner, LayoutPlannerOptions } from '../src/core/LayoutPlanner';
+
+// HeightMap piatta width x height pixel (1 mm/px con resolution 1)
+function flatMap(width: number, height: number): HeightMapData {
+    return {
+        grid: new Float32Array(width * height).fill(1),
+        width, height, maxZ: 1,
+        bounds: { minX: 0, maxX: width, minY: 0, maxY: height, minZ: 0, maxZ: 1 }
+    };
+}
+
+test('i candidati sono ordinati: entrano, meno tile, riserva maggiore, costo minore', () => {
+    const options: LayoutPlannerOptions = { bedWidth: 110, bedHeight: 80, resolution: 1, allowRotation: true, reserves: [0, 4] };
+    const plan = LayoutPlanner.plan(flatMap(300, 200), options);
+    assert.equal(plan.best, plan.candidates[0]);
+    assert.ok(plan.candidates.length > 4);
+    for (let i = 1; i < plan.candidates.length; i++) {
+        const a = plan.candidates[i - 1], b = plan.candidates[i];
+        const key = (c: typeof a) => [c.fits ? 0 : 1, c.tiles, -c.reserve, c.seamCost];
+        const ka = key(a), kb = key(b);
+        const first = ka.findIndex((v, k) => v !== kb[k]);
+        assert.ok(first === -1 || ka[first] < kb[first], `candidati ${i - 1} e ${i} fuori ordine`);
+    }
+    assert.ok(plan.best.fits);
+});
+
+test('a parità di tile vince la riserva maggiore', () => {
+    // 200x100 su 110x110: due tile con o senza riserva
+    const plan = LayoutPlanner.plan(flatMap(200, 100), { bedWidth: 110, bedHeight: 110, resolution: 1, kinds: ['grid'], reserves: [0, 2] });
+    assert.equal(plan.best.tiles, 2);
+    assert.equal(plan.best.reserve, 2);
+    assert.equal(plan.best.layout.reserve, 2);
+    assert.ok(plan.best.layout.cellWidth <= 106 && plan.best.layout.cellHeight <= 106);
+});
+
+test('con allowRotation sceglie il piatto girato quando servono meno tile', () => {
+    const mapData = flatMap(20, 8);
+    const base: LayoutPlannerOptions = { bedWidth: 9, bedHeight: 21, resolution: 1, kinds: ['grid'] };
+    const straight = LayoutPlanner.plan(mapData, base);
+    assert.equal(straight.best.rotated, false);
+    assert.ok(straight.best.tiles > 1);
+
+    const rotated = LayoutPlanner.plan(mapData, { ...base, allowRotation: true });
+    assert.equal(rotated.best.rotated, true);
+    assert.equal(rotated.best.tiles, 1);
+});
+
+test('formatReport segna la scelta', () => {
+    const options: LayoutPlannerOptions = { bedWidth: 110, bedHeight: 110, resolution: 1, kinds: ['grid', 'brick'] };
+    const plan = LayoutPlanner.plan(flatMap(300, 200), options);
+    const lines = LayoutPlanner.formatReport(plan, options).split('\n');
+    assert.match(lines[0], /alternative valutate per il piatto 110x110mm/);
+    const marked = lines.filter(l => l.includes('➜'));
+    assert.equal(marked.length, 1);
+    assert.ok(marked[0].includes(plan.best.kind));
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MaskRasterizer } from '../src/core/MaskRasterizer';
+import { Point2D } from '../src/utils/GeometryUtils';
+
+const square = (x0: number, y0: number, x1: number, y1: number): Point2D[] =>
+    [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }];
+
+const count = (mask: Uint8Array) => mask.reduce((n, v) => n + v, 0);
+const at = (mask: Uint8Array, width: number, x: number, y: number) => mask[y * width + x];
+
+test('fill: un pixel è dentro se lo è il suo centro', () => {
+    const mask = MaskRasterizer.fill([square(2, 2, 5, 4)], 8, 8);
+    assert.equal(count(mask), 3 * 2);
+    assert.equal(at(mask, 8, 2, 2), 1);
+    assert.equal(at(mask, 8, 5, 2), 0);
+    assert.equal(at(mask, 8, 2, 4), 0);
+});
+
+test('fill nonzero: un buco con verso opposto resta vuoto, uno con lo stesso verso no', () => {
+    const outer = square(0, 0, 10, 10);
+    const hole = square(3, 3, 7, 7).reverse();
+    const withHole = MaskRasterizer.fill([outer, hole], 10, 10);
+    assert.equal(count(withHole), 100 - 16);
+    assert.equal(at(withHole, 10, 5, 5), 0);
+
+    const sameDirection = MaskRasterizer.fill([outer, square(3, 3, 7, 7)], 10, 10);
+    assert.equal(count(sameDirection), 100);
+});
+
+test('fill nonzero: una stella a cinque punte che si auto-interseca è piena anche al centro', () => {
+    const star: Point2D[] = [];
+    for (let k = 0; k < 5; k++) {
+        const a = -Math.PI / 2 + k * 4 * Math.PI / 5;
+        star.push({ x: 50 + 40 * Math.cos(a), y: 50 + 40 * Math.sin(a) });
+    }
+    const mask = MaskRasterizer.fill([star], 100, 100);
+    // Con even-odd il pentagono centrale sarebbe vuoto
+    assert.equal(at(mask, 100, 50, 50), 1);
+    assert.equal(at(mask, 100, 50, 15), 1);
+    assert.equal(at(mask, 100, 5, 5), 0);
+});
+
+test('stroke, rowRange e transpose', () => {
+    const mask = MaskRasterizer.stroke([[{ x: 5, y: 2 }, { x: 5, y: 6 }]], 2, 10, 10);
+    assert.deepEqual(MaskRasterizer.rowRange(mask, 10, 10), { start: 1, end: 6 });
+    assert.equal(at(mask, 10, 4, 4) + at(mask, 10, 5, 4), 2);
+    assert.equal(at(mask, 10, 7, 4), 0);
+
+    const t = MaskRasterizer.transpose(mask, 10, 10);
+    assert.deepEqual(MaskRasterizer.rowRange(t, 10, 10), { start: 4, end: 5 });
+    assert.equal(MaskRasterizer.rowRange(new Uint8Array(100), 10, 10), null);
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PlanarArrangement } from '../src/core/PlanarArrangement';
+
+const bbox = (loop: { x: number, y: number }[]) => {
+    const xs = loop.map(p => p.x), ys = loop.map(p => p.y);
+    return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) };
+};
+const totalArea = (faces: { area: number }[]) => faces.reduce((s, f) => s + f.area, 0);
+
+test('senza tagli c\'è una sola faccia, il rettangolo', () => {
+    const { faces, danglingCuts } = PlanarArrangement.build([], 100, 50);
+    assert.equal(faces.length, 1);
+    assert.deepEqual(danglingCuts, []);
+    assert.ok(Math.abs(faces[0].area - 5000) < 1e-6);
+});
+
+test('un taglio verticale divide in due, una griglia in quattro', () => {
+    const half = PlanarArrangement.build([[{ x: 40, y: 0 }, { x: 40, y: 50 }]], 100, 50);
+    assert.equal(half.faces.length, 2);
+    assert.deepEqual(half.faces.map(f => Math.round(f.area)).sort((a, b) => a - b), [2000, 3000]);
+
+    const grid = PlanarArrangement.build([
+        [{ x: 50, y: 0 }, { x: 50, y: 50 }],
+        [{ x: 0, y: 25 }, { x: 100, y: 25 }]
+    ], 100, 50);
+    assert.equal(grid.faces.length, 4);
+    for (const f of grid.faces) assert.ok(Math.abs(f.area - 1250) < 1e-6);
+});
+
+test('giunzione a T: il taglio parziale divide solo il lato su cui si appoggia', () => {
+    const { faces } = PlanarArrangement.build([
+        [{ x: 0, y: 25 }, { x: 100, y: 25 }],
+        [{ x: 50, y: 25 }, { x: 50, y: 50 }]
+    ], 100, 50);
+    assert.equal(faces.length, 3);
+    const boxes = faces.map(f => bbox(f.outer));
+    assert.ok(boxes.some(b => b.x0 === 0 && b.x1 === 100 && b.y1 === 25));
+    assert.ok(Math.abs(totalArea(faces) - 5000) < 1e-6);
+});
+
+test('i tagli che finiscono nel vuoto vengono potati e segnalati per indice', () => {
+    const { faces, danglingCuts } = PlanarArrangement.build([
+        [{ x: 50, y: 0 }, { x: 50, y: 50 }],
+        [{ x: 0, y: 25 }, { x: 30, y: 25 }]
+    ], 100, 50);
+    assert.equal(faces.length, 2);
+    assert.deepEqual(danglingCuts, [1]);
+});
+
+test('un taglio a T che sborda di qualche pixel oltre il giunto non è un taglio scartato', () => {
+    // Seam parziale a zig-zag (un pixel per passo) dal bordo in alto, che supera l'orizzontale di 3px prima di fermarsi
+    const stub = [];
+    for (let y = 0; y <= 53; y++) stub.push({ x: 40 + (y % 2), y });
+    const cuts = [[{ x: 0, y: 50 }, { x: 100, y: 50 }], stub];
+    for (const snapTolerance of [0, 10]) {
+        const { faces, danglingCuts } = PlanarArrangement.build(cuts.map(c => c.map(p => ({ ...p }))), 100, 80, { snapTolerance });
+        assert.deepEqual(danglingCuts, [], `snap ${snapTolerance}`);
+        // Il pezzo oltre il giunto viene potato, non riportato indietro a chiudere una scheggia
+        assert.equal(faces.length, 3, `snap ${snapTolerance}`);
+        assert.ok(faces.every(f => f.area > 1000), `snap ${snapTolerance}`);
+    }
+});
+
+test('snapTolerance aggancia un estremo che non arriva al bordo', () => {
+    const cut = [[{ x: 40, y: 0 }, { x: 40, y: 48 }]];
+    assert.equal(PlanarArrangement.build(cut, 100, 50).faces.length, 1);
+    assert.equal(PlanarArrangement.build(cut, 100, 50, { snapTolerance: 3 }).faces.length, 2);
+});
+
+test('un\'isola chiusa diventa un buco della faccia che la contiene', () => {
+    const island = [{ x: 40, y: 20 }, { x: 60, y: 20 }, { x: 60, y: 30 }, { x: 40, y: 30 }, { x: 40, y: 20 }];
+    const { faces } = PlanarArrangement.build([island], 100, 50);
+    assert.equal(faces.length, 2);
+    const outer = faces.find(f => f.holes.length === 1)!;
+    assert.ok(outer, 'manca la faccia con il buco');
+    assert.ok(Math.abs(outer.area - (5000 - 200)) < 1e-6);
+    assert.ok(Math.abs(totalArea(faces) - 5000) < 1e-6);
+});
+
+test('le facce più piccole di mergeArea vengono unite a una vicina', () => {
+    const cuts = [[{ x: 1, y: 0 }, { x: 1, y: 50 }], [{ x: 50, y: 0 }, { x: 50, y: 50 }]];
+    assert.equal(PlanarArrangement.build(cuts, 100, 50).faces.length, 3);
+    const merged = PlanarArrangement.build(cuts, 100, 50, { mergeArea: 100 });
+    assert.equal(merged.faces.length, 2);
+    assert.ok(Math.abs(totalArea(merged.faces) - 5000) < 1e-6);
+});
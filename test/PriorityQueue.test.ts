@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PriorityQueue } from '../src/core/watershed/PriorityQueue';
+
+function drain(queue: PriorityQueue): number[] {
+    const out: number[] = [];
+    while (!queue.isEmpty()) out.push(queue.dequeue()!);
+    return out;
+}
+
+test('dequeues by ascending priority', () => {
+    const queue = new PriorityQueue();
+    [5, 1, 4, 2, 3].forEach(p => queue.enqueue(p * 10, p));
+    assert.equal(queue.peekPriority(), 1);
+    assert.deepEqual(drain(queue), [10, 20, 30, 40, 50]);
+    assert.equal(queue.dequeue(), undefined);
+    assert.equal(queue.peekPriority(), undefined);
+});
+
+test('equal priorities leave in insertion order (FIFO)', () => {
+    const queue = new PriorityQueue();
+    for (let i = 0; i < 20; i++) queue.enqueue(i, i % 2);
+    assert.deepEqual(drain(queue), [0, 2, 4, 6, 8, 10, 12, 14, 16, 18, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19]);
+});
+
+test('grows past the initial capacity and matches a stable sort', () => {
+    const queue = new PriorityQueue(2);
+    const priorities = Array.from({ length: 500 }, (_, i) => (i * 7919) % 13);
+    priorities.forEach((p, i) => queue.enqueue(i, p));
+    assert.equal(queue.size, 500);
+    const expected = priorities.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p || a.i - b.i).map(e => e.i);
+    assert.deepEqual(drain(queue), expected);
+});
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SeedOptimizer } from '../src/core/watershed/SeedOptimizer';
+import { WatershedSegmenter } from '../src/core/watershed/WatershedSegmenter';
+import { RegionStats } from '../src/core/watershed/RegionStats';
+
+test('snapToBasins moves the seed to the flattest spot in the middle of its cell', () => {
+    const width = 40, height = 40;
+    const gradient = new Float32Array(width * height).fill(10);
+    const flat = (x0: number, y0: number, x1: number, y1: number) => {
+        for (let y = y0; y <= y1; y++) for (let x = x0; x <= x1; x++) gradient[y * width + x] = 0;
+    };
+    flat(24, 12, 28, 16);
+    // Flatter area, but inside the cell margin: ignored
+    flat(0, 0, 6, 6);
+
+    const cell = { x0: 0, y0: 0, x1: 40, y1: 40 };
+    const [seed] = SeedOptimizer.snapToBasins([{ x: 20, y: 20, label: 1 }], [cell], gradient, width, height);
+    assert.equal(seed.label, 1);
+    assert.ok(seed.x >= 24 && seed.x <= 28, `x = ${seed.x}`);
+    assert.ok(seed.y >= 12 && seed.y <= 16, `y = ${seed.y}`);
+});
+
+test('relax spreads clustered seeds until every region fits the bed', () => {
+    const width = 60, height = 20;
+    const segmenter = new WatershedSegmenter(width, height, new Float32Array(width * height));
+    const bed = { width: 35, height: 20 };
+    const result = SeedOptimizer.relax(segmenter, [{ x: 2, y: 10, label: 1 }, { x: 5, y: 10, label: 2 }], width, height, bed, 20);
+
+    assert.ok(result.fits);
+    assert.deepEqual(result.oversized, []);
+    assert.ok(result.iterations > 0);
+    for (const region of RegionStats.compute(result.labels, width, height).values()) {
+        assert.ok(RegionStats.size(region).width <= bed.width);
+    }
+});
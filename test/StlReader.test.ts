@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StlReader } from '../src/core/mesh/StlReader';
+
+const TRIANGLE = [0, 0, 1, 10, 0, 1, 0, 10, 2];
+
+function binaryStl(triangles: number[][], header = 'binary header'): Buffer {
+    const buffer = Buffer.alloc(84 + 50 * triangles.length);
+    buffer.write(header, 0, 80, 'latin1');
+    buffer.writeUInt32LE(triangles.length, 80);
+    triangles.forEach((t, i) => t.forEach((v, k) => buffer.writeFloatLE(v, 84 + i * 50 + 12 + k * 4)));
+    return buffer;
+}
+
+function asciiStl(triangles: number[][]): Buffer {
+    let text = 'solid test\n';
+    for (const t of triangles) {
+        text += ' facet normal 0 0 1\n  outer loop\n';
+        for (let k = 0; k < 9; k += 3) text += `   vertex ${t[k]} ${t[k + 1]} ${t[k + 2]}\n`;
+        text += '  endloop\n endfacet\n';
+    }
+    return Buffer.from(text + 'endsolid test\n', 'latin1');
+}
+
+function collect(buffer: Buffer): number[][] {
+    const triangles: number[][] = [];
+    StlReader.forEachTriangle(buffer, v => triangles.push(Array.from(v)));
+    return triangles;
+}
+
+test('riconosce STL binario e ASCII', () => {
+    assert.equal(StlReader.detectFormat(binaryStl([TRIANGLE])), 'binary');
+    assert.equal(StlReader.detectFormat(asciiStl([TRIANGLE])), 'ascii');
+});
+
+test('un binario con "solid" nell\'header resta binario se la dimensione torna', () => {
+    const buffer = binaryStl([TRIANGLE], 'solid exported by some CAD facet');
+    assert.equal(StlReader.detectFormat(buffer), 'binary');
+    assert.deepEqual(collect(buffer), [TRIANGLE]);
+});
+
+test('file né binario né ASCII: errore', () => {
+    assert.throws(() => StlReader.detectFormat(Buffer.from('garbage file')), /File STL non valido/);
+});
+
+test('ASCII: legge i vertici e segnala i facet incompleti', () => {
+    assert.deepEqual(collect(asciiStl([TRIANGLE, TRIANGLE.map(v => v + 1)])), [TRIANGLE, TRIANGLE.map(v => v + 1)]);
+    const broken = Buffer.from('solid t\n facet normal 0 0 1\n  outer loop\n   vertex 0 0 0\n  endloop\n endfacet\nendsolid t\n');
+    assert.throws(() => collect(broken), /facet con 1 vertici/);
+});
+
+test('la lettura a blocchi da file dà gli stessi triangoli del buffer', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hueslicer-stl-'));
+    try {
+        for (const [name, buffer] of [['a.stl', asciiStl([TRIANGLE])], ['b.stl', binaryStl([TRIANGLE, TRIANGLE])]] as const) {
+            const file = path.join(dir, name);
+            fs.writeFileSync(file, buffer);
+            const triangles: number[][] = [];
+            StlReader.forEachTriangleInFile(file, v => triangles.push(Array.from(v)));
+            assert.deepEqual(triangles, collect(buffer));
+        }
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SvgPathParser } from '../src/core/SvgPathParser';
+import { Point2D } from '../src/utils/GeometryUtils';
+
+const round = (points: Point2D[]) => points.map(p => ({ x: +p.x.toFixed(6), y: +p.y.toFixed(6) }));
+
+test('comandi relativi, H/V e lineto impliciti dopo M', () => {
+    const [sub] = SvgPathParser.parse('m 10 10 5 0 h 5 v 5 l -10 0');
+    assert.deepEqual(sub.points, [{ x: 10, y: 10 }, { x: 15, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 15 }, { x: 10, y: 15 }]);
+    assert.equal(sub.closed, false);
+});
+
+test('Z chiude il sottopercorso e un m successivo è relativo al punto di partenza', () => {
+    const subs = SvgPathParser.parse('M0,0 L10,0 L10,10 z m 20 0 l 5 5');
+    assert.equal(subs.length, 2);
+    assert.equal(subs[0].closed, true);
+    assert.deepEqual(subs[0].points[subs[0].points.length - 1], { x: 0, y: 0 });
+    assert.deepEqual(subs[1].points, [{ x: 20, y: 0 }, { x: 25, y: 5 }]);
+});
+
+test('numeri compatti come li scrive Inkscape', () => {
+    assert.deepEqual(SvgPathParser.flatten('M.5-.5L1e1.25'), [{ x: 0.5, y: -0.5 }, { x: 10, y: 0.25 }]);
+});
+
+test('cubiche e quadratiche restano entro la tolleranza e finiscono nel punto finale', () => {
+    const tolerance = 0.01;
+    // Quadratica (0,0) (10,20) (20,0): x = 20t, y = 40t(1 - t)
+    const points = SvgPathParser.flatten('M 0 0 Q 10 20 20 0', tolerance);
+    assert.deepEqual(points[points.length - 1], { x: 20, y: 0 });
+    assert.ok(points.length > 4);
+    for (const p of points) {
+        const t = p.x / 20;
+        assert.ok(Math.abs(p.y - 40 * t * (1 - t)) < 2 * tolerance, `punto fuori curva: ${p.x}, ${p.y}`);
+    }
+    // S riflette il controllo della C precedente: curva simmetrica rispetto a x = 20
+    const s = round(SvgPathParser.flatten('M 0 0 C 0 10 10 10 20 10 S 40 10 40 0', tolerance));
+    assert.deepEqual(s[s.length - 1], { x: 40, y: 0 });
+    assert.ok(s.every(p => p.y <= 10 + 1e-6));
+});
+
+test('archi: semicerchio relativo con raggio e verso', () => {
+    const points = SvgPathParser.flatten('M 0 0 a 10 10 0 0 1 20 0', 0.01);
+    assert.deepEqual(round([points[points.length - 1]]), [{ x: 20, y: 0 }]);
+    for (const p of points) assert.ok(Math.abs(Math.hypot(p.x - 10, p.y) - 10) < 0.02);
+    // sweep = 1 in coordinate SVG (Y verso il basso): da (0,0) a (20,0) passa sopra, y < 0
+    assert.ok(points.some(p => p.y < -9.9));
+    // Raggio troppo piccolo: viene scalato fino a coprire la corda
+    const scaled = SvgPathParser.flatten('M 0 0 A 1 1 0 0 0 20 0', 0.01);
+    assert.ok(scaled.some(p => p.y > 9.9));
+});
+
+test('path malformati: errore con la posizione', () => {
+    assert.throws(() => SvgPathParser.parse('M 50 0 L 50 Q'), /Path SVG non valido/);
+    assert.throws(() => SvgPathParser.parse('10 10'), /atteso un comando/);
+});
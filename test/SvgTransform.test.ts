@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SvgTransform } from '../src/core/SvgTransform';
+import { Point2D } from '../src/utils/GeometryUtils';
+
+const close = (p: Point2D, x: number, y: number) => assert.ok(Math.abs(p.x - x) < 1e-9 && Math.abs(p.y - y) < 1e-9, `(${p.x}, ${p.y}) != (${x}, ${y})`);
+
+test('le funzioni sono composte da sinistra a destra: l\'ultima si applica per prima', () => {
+    const m = SvgTransform.parse('translate(10, 5) scale(2)');
+    close(SvgTransform.apply(m, { x: 1, y: 1 }), 12, 7);
+    const n = SvgTransform.parse('scale(2) translate(10 5)');
+    close(SvgTransform.apply(n, { x: 1, y: 1 }), 22, 12);
+});
+
+test('rotate attorno a un centro, skew e matrix', () => {
+    close(SvgTransform.apply(SvgTransform.parse('rotate(90 10 10)'), { x: 20, y: 10 }), 10, 20);
+    close(SvgTransform.apply(SvgTransform.parse('skewX(45)'), { x: 0, y: 10 }), 10, 10);
+    close(SvgTransform.apply(SvgTransform.parse('matrix(1,0,0,-1,0,100)'), { x: 3, y: 40 }), 3, 60);
+    assert.deepEqual(SvgTransform.parse(undefined), [1, 0, 0, 1, 0, 0]);
+});
+
+test('scaleFactor è la radice del determinante', () => {
+    assert.equal(SvgTransform.scaleFactor(SvgTransform.parse('scale(2 8)')), 4);
+    assert.ok(Math.abs(SvgTransform.scaleFactor(SvgTransform.parse('rotate(30) scale(3)')) - 3) < 1e-12);
+});
+
+test('lengthToMm: unità fisiche in mm, px e numeri puri null', () => {
+    assert.equal(SvgTransform.lengthToMm('200mm'), 200);
+    assert.equal(SvgTransform.lengthToMm('2cm'), 20);
+    assert.equal(SvgTransform.lengthToMm('1in'), 25.4);
+    assert.equal(SvgTransform.lengthToMm('72pt'), 25.4);
+    assert.equal(SvgTransform.lengthToMm(' 1.5e1 MM '), 15);
+    assert.equal(SvgTransform.lengthToMm('100'), null);
+    assert.equal(SvgTransform.lengthToMm('100px'), null);
+    assert.equal(SvgTransform.lengthToMm('50%'), null);
+    assert.equal(SvgTransform.lengthToMm(undefined), null);
+});
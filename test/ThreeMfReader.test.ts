@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { ZipArchive } from '../src/utils/ZipArchive';
+import { ThreeMfMeshReader } from '../src/core/mesh/ThreeMfReader';
+
+// ZIP minimale: voci Stored o Deflate, central directory ed EOCD
+function zip(files: { name: string, data: string, deflate?: boolean }[]): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+    for (const f of files) {
+        const raw = Buffer.from(f.data, 'utf-8');
+        const data = f.deflate ? zlib.deflateRawSync(raw) : raw;
+        const name = Buffer.from(f.name, 'utf-8');
+        const crc = zlib.crc32(raw);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(f.deflate ? 8 : 0, 8);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(name.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(f.deflate ? 8 : 0, 10);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(raw.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, name, data);
+        centrals.push(central, name);
+        offset += local.length + name.length + data.length;
+    }
+    const directory = Buffer.concat(centrals);
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(files.length, 8);
+    eocd.writeUInt16LE(files.length, 10);
+    eocd.writeUInt32LE(directory.length, 12);
+    eocd.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, directory, eocd]);
+}
+
+test('ZipArchive: voci Stored e Deflate, path assolute come nei .rels', () => {
+    const archive = new ZipArchive(zip([
+        { name: 'a.txt', data: 'stored' },
+        { name: '3D/b.model', data: 'deflated '.repeat(50), deflate: true }
+    ]));
+    assert.deepEqual(archive.list(), ['a.txt', '3D/b.model']);
+    assert.equal(archive.readText('a.txt'), 'stored');
+    assert.equal(archive.readText('/3D/b.model'), 'deflated '.repeat(50));
+    assert.ok(archive.has('/a.txt'));
+    assert.throws(() => archive.read('missing'), /voce non trovata/);
+});
+
+test('ZipArchive: un file che non è uno ZIP viene rifiutato', () => {
+    assert.equal(ZipArchive.isZip(Buffer.from('solid test')), false);
+    assert.throws(() => new ZipArchive(Buffer.alloc(64)), /End Of Central Directory/);
+});
+
+const RELS = `<?xml version="1.0"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/main.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+// Modello in cm: un triangolo colorato dell'oggetto 1, l'oggetto 2 lo riusa come componente spostato
+const MAIN = `<?xml version="1.0"?>
+<model unit="centimeter" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <resources>
+    <m:colorgroup id="5"><m:color color="#FF0000"/><m:color color="#00FF00"/></m:colorgroup>
+    <object id="1" type="model">
+      <mesh>
+        <vertices><vertex x="0" y="0" z="0"/><vertex x="1" y="0" z="0"/><vertex x="0" y="1" z="0"/></vertices>
+        <triangles><triangle v1="0" v2="1" v3="2" pid="5" p1="1"/></triangles>
+      </mesh>
+    </object>
+    <object id="2" type="model">
+      <components><component objectid="1" transform="1 0 0 0 1 0 0 0 1 2 0 0"/></components>
+    </object>
+  </resources>
+  <build><item objectid="2" transform="1 0 0 0 1 0 0 0 1 0 3 0"/></build>
+</model>`;
+
+test('ThreeMfReader: modello dai .rels, unità, trasformazioni annidate e colori', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hueslicer-3mf-'));
+    try {
+        const file = path.join(dir, 'model.3mf');
+        fs.writeFileSync(file, zip([
+            { name: '_rels/.rels', data: RELS },
+            { name: '3D/main.model', data: MAIN, deflate: true }
+        ]));
+        const reader = new ThreeMfMeshReader(file);
+        const triangles: number[][] = [];
+        assert.equal(reader.forEachTriangle(v => triangles.push(Array.from(v))), 1);
+        // (x + 2, y + 3) in cm -> mm
+        assert.deepEqual(triangles, [[20, 30, 0, 30, 30, 0, 20, 40, 0]]);
+
+        const metadata = reader.getMetadata();
+        assert.equal(metadata.units, 'centimeter');
+        assert.deepEqual(metadata.materialGroups.map(g => g.materials.map(m => m.color)), [['#FF0000', '#00FF00']]);
+        assert.deepEqual(metadata.materialRuns, [{ start: 0, count: 1, groupId: '5', index: 1 }]);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
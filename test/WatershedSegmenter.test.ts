@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WatershedSegmenter } from '../src/core/watershed/WatershedSegmenter';
+
+const W = 40, H = 20;
+
+// Flat relief with a ridge along column `ridgeX` (no ridge if -1)
+function relief(ridgeX: number): Float32Array {
+    const map = new Float32Array(W * H);
+    if (ridgeX >= 0) for (let y = 0; y < H; y++) map[y * W + ridgeX] = 5;
+    return map;
+}
+
+const labelsOf = (labels: Int32Array, x0: number, x1: number): Set<number> => {
+    const out = new Set<number>();
+    for (let y = 0; y < H; y++) for (let x = x0; x <= x1; x++) out.add(labels[y * W + x]);
+    return out;
+};
+
+test('each basin fills up to the ridge before crossing it, wherever the seeds are', () => {
+    const segmenter = new WatershedSegmenter(W, H, relief(10));
+    // The ridge is far closer to seed 1: distance alone would put the boundary near x = 20
+    const labels = segmenter.segment([{ x: 2, y: 10, label: 1 }, { x: 37, y: 10, label: 2 }]);
+    assert.deepEqual(labelsOf(labels, 0, 8), new Set([1]));
+    assert.deepEqual(labelsOf(labels, 12, W - 1), new Set([2]));
+});
+
+test('every pixel gets a label and watershed lines mark where basins meet', () => {
+    const segmenter = new WatershedSegmenter(W, H, relief(10));
+    const labels = segmenter.segment([{ x: 2, y: 10, label: 1 }, { x: 37, y: 10, label: 2 }], { watershedLines: true });
+    assert.ok(labels.every(l => l === 1 || l === 2));
+    const lines = segmenter.getWatershedLines()!;
+    assert.ok(lines.some(v => v === 1));
+    for (let i = 0; i < lines.length; i++) {
+        if (lines[i]) assert.ok(Math.abs((i % W) - 10) <= 1, `line pixel at x = ${i % W}`);
+    }
+});
+
+test('a locked region straddling the natural boundary ends up with a single label', () => {
+    const segmenter = new WatershedSegmenter(W, H, relief(-1));
+    const seeds = [{ x: 2, y: 10, label: 1 }, { x: 37, y: 10, label: 2 }];
+    // Without the lock the flat map splits halfway between the seeds
+    const free = segmenter.segment(seeds);
+    assert.deepEqual(labelsOf(free, 15, 25), new Set([1, 2]));
+
+    const lock = new Uint8Array(W * H);
+    for (let y = 4; y < 16; y++) for (let x = 15; x <= 25; x++) lock[y * W + x] = 1;
+    segmenter.setLockedRegions([lock]);
+    const labels = segmenter.segment(seeds);
+    const inside = new Set<number>();
+    lock.forEach((v, i) => { if (v) inside.add(labels[i]); });
+    assert.equal(inside.size, 1);
+    assert.ok(labels.every(l => l === 1 || l === 2));
+});
+
+test('overlapping locked regions are merged into one', () => {
+    const segmenter = new WatershedSegmenter(W, H, relief(-1));
+    const a = new Uint8Array(W * H), b = new Uint8Array(W * H);
+    for (let y = 8; y < 12; y++) {
+        for (let x = 5; x <= 21; x++) a[y * W + x] = 1;
+        for (let x = 19; x <= 35; x++) b[y * W + x] = 1;
+    }
+    segmenter.setLockedRegions([a, b]);
+    const labels = segmenter.segment([{ x: 2, y: 10, label: 1 }, { x: 37, y: 10, label: 2 }]);
+    const inside = new Set<number>();
+    for (let i = 0; i < labels.length; i++) if (a[i] || b[i]) inside.add(labels[i]);
+    assert.equal(inside.size, 1);
+});
+
+test('a soft barrier pulls the boundary onto the guide line', () => {
+    const segmenter = new WatershedSegmenter(W, H, relief(-1));
+    // Guide at x = 14, off the midpoint between the seeds
+    const distance = new Float32Array(W * H);
+    for (let i = 0; i < distance.length; i++) {
+        const d = Math.abs((i % W) - 14);
+        distance[i] = d <= 9 ? d : Infinity;
+    }
+    segmenter.applySoftBarrier(distance, 3);
+    const labels = segmenter.segment([{ x: 2, y: 10, label: 1 }, { x: 37, y: 10, label: 2 }]);
+    assert.deepEqual(labelsOf(labels, 0, 13), new Set([1]));
+    assert.deepEqual(labelsOf(labels, 15, W - 1), new Set([2]));
+});